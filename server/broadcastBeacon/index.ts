@@ -0,0 +1,43 @@
+import { AzureFunction, Context, HttpRequest } from "@azure/functions";
+import { isValidRoomId, roomGroupName } from "../shared/rooms";
+
+// Lets everyone in a room know where a peer is standing, including people
+// they aren't connected to over WebRTC.
+const httpTrigger: AzureFunction = async function (
+  context: Context,
+  req: HttpRequest
+): Promise<any> {
+  const userId = req.body && req.body.peerId;
+  const roomId = req.body && req.body.roomId;
+  const x = req.body && req.body.x;
+  const y = req.body && req.body.y;
+
+  if (!userId) {
+    context.res = { status: 403, body: "Pass in a peerId!" };
+    return;
+  }
+
+  if (!isValidRoomId(roomId)) {
+    context.res = { status: 403, body: "Pass in a valid roomId!" };
+    return;
+  }
+
+  if (typeof x !== "number" || typeof y !== "number") {
+    context.res = { status: 403, body: "Pass in a position!" };
+    return;
+  }
+
+  context.res = {
+    status: 200,
+  };
+
+  context.bindings.signalRMessages = [
+    {
+      groupName: roomGroupName(roomId),
+      target: "beacon",
+      arguments: [userId, x, y],
+    },
+  ];
+};
+
+export default httpTrigger;
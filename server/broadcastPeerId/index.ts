@@ -1,4 +1,5 @@
 import { AzureFunction, Context, HttpRequest } from "@azure/functions";
+import { isValidRoomId, roomGroupName } from "../shared/rooms";
 
 const httpTrigger: AzureFunction = async function (
   context: Context,
@@ -6,13 +7,19 @@ const httpTrigger: AzureFunction = async function (
 ): Promise<any> {
   context.log("In broadcastPeerId");
   const userId = req.body && req.body.peerId;
+  const roomId = req.body && req.body.roomId;
 
   if (!userId) {
     context.res = { status: 403, body: "Pass in a peerId!" };
     return;
   }
 
-  context.log("Username?", userId);
+  if (!isValidRoomId(roomId)) {
+    context.res = { status: 403, body: "Pass in a valid roomId!" };
+    return;
+  }
+
+  context.log("Username?", userId, "Room?", roomId);
 
   context.res = {
     status: 200,
@@ -20,9 +27,11 @@ const httpTrigger: AzureFunction = async function (
 
   console.log("Setting group actions");
 
+  const groupName = roomGroupName(roomId);
+
   context.bindings.signalRGroupActions = {
     userId,
-    groupName: "peers",
+    groupName,
     action: "add",
   };
 
@@ -30,7 +39,7 @@ const httpTrigger: AzureFunction = async function (
 
   context.bindings.signalRMessages = [
     {
-      groupName: "peers",
+      groupName,
       target: "peerConnected",
       arguments: [userId],
     },
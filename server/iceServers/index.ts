@@ -0,0 +1,22 @@
+import { AzureFunction, Context, HttpRequest } from "@azure/functions";
+import { getIceServerConfig } from "../shared/iceServers";
+
+const httpTrigger: AzureFunction = async function (
+  context: Context,
+  req: HttpRequest
+): Promise<any> {
+  context.log("In iceServers");
+  const userId = req.headers["x-ms-client-principal-id"];
+
+  if (!userId) {
+    context.res = { status: 403, body: "Pass in a userId!" };
+    return;
+  }
+
+  context.res = {
+    status: 200,
+    body: getIceServerConfig(userId),
+  };
+};
+
+export default httpTrigger;
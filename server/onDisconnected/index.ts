@@ -0,0 +1,25 @@
+import { AzureFunction, Context } from "@azure/functions";
+
+// Fired by SignalR Service (via its upstream URL) when a client's hub connection drops.
+const signalRTrigger: AzureFunction = async function (
+  context: Context,
+  invocation
+): Promise<any> {
+  const userId = invocation && invocation.UserId;
+  context.log("In onDisconnected", userId);
+
+  if (!userId) {
+    return;
+  }
+
+  // SignalR removes the connection from its groups on its own, but we don't
+  // know which room it was in, so tell everyone. Clients ignore unknown peers.
+  context.bindings.signalRMessages = [
+    {
+      target: "peerLeft",
+      arguments: [userId],
+    },
+  ];
+};
+
+export default signalRTrigger;
@@ -1,4 +1,5 @@
 import { AzureFunction, Context, HttpRequest } from "@azure/functions";
+import { isValidRoomId } from "../shared/rooms";
 
 const httpTrigger: AzureFunction = async function (
   context: Context,
@@ -8,6 +9,7 @@ const httpTrigger: AzureFunction = async function (
   const peerId = req.body && req.body.peerId;
   const senderPeerId = req.body && req.body.senderPeerId;
   const data = req.body && req.body.data;
+  const roomId = req.body && req.body.roomId;
 
   if (!peerId) {
     context.res = { status: 403, body: "Pass in a peerId!" };
@@ -16,6 +18,12 @@ const httpTrigger: AzureFunction = async function (
 
   if (!data) {
     context.res = { status: 403, body: "Pass in signal data!" };
+    return;
+  }
+
+  if (!isValidRoomId(roomId)) {
+    context.res = { status: 403, body: "Pass in a valid roomId!" };
+    return;
   }
 
   context.log("Peer Id?", peerId);
@@ -32,7 +40,8 @@ const httpTrigger: AzureFunction = async function (
     {
       userId: peerId,
       target: "signal",
-      arguments: [JSON.stringify({ data, peerId: senderPeerId })],
+      // We can't see group membership from here, so the recipient checks the room.
+      arguments: [JSON.stringify({ data, peerId: senderPeerId, roomId })],
     },
   ];
 };
@@ -0,0 +1,55 @@
+import * as crypto from "crypto";
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServerConfig {
+  iceServers: IceServer[];
+  ttl: number;
+}
+
+const DEFAULT_STUN_URLS = "stun:stun.l.google.com:19302";
+const DEFAULT_TTL = 3600;
+
+function parseUrls(value?: string): string[] {
+  return (value || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+// Builds the ICE server list from the environment:
+//   STUN_URLS   comma-separated stun: urls (defaults to Google's public STUN)
+//   TURN_URLS   comma-separated turn:/turns: urls
+//   TURN_SECRET shared secret configured on the TURN server (coturn's static-auth-secret)
+//   TURN_TTL    how long issued credentials are good for, in seconds
+//
+// TURN credentials follow the "TURN REST API" scheme coturn understands:
+// the username is "<expiry timestamp>:<userId>" and the password is an
+// HMAC-SHA1 of that username, so nothing needs to be stored server-side.
+export function getIceServerConfig(userId: string): IceServerConfig {
+  const ttl = parseInt(process.env.TURN_TTL || `${DEFAULT_TTL}`, 10);
+  const iceServers: IceServer[] = [];
+
+  const stunUrls = parseUrls(process.env.STUN_URLS || DEFAULT_STUN_URLS);
+  if (stunUrls.length) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const secret = process.env.TURN_SECRET;
+  if (turnUrls.length && secret) {
+    const expiry = Math.floor(Date.now() / 1000) + ttl;
+    const username = `${expiry}:${userId}`;
+    const credential = crypto
+      .createHmac("sha1", secret)
+      .update(username)
+      .digest("base64");
+    iceServers.push({ urls: turnUrls, username, credential });
+  }
+
+  return { iceServers, ttl };
+}
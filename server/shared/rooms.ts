@@ -0,0 +1,10 @@
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidRoomId(roomId: any): roomId is string {
+  return typeof roomId === "string" && ROOM_ID_PATTERN.test(roomId);
+}
+
+// SignalR group that holds every peer in a room.
+export function roomGroupName(roomId: string): string {
+  return `room-${roomId}`;
+}
@@ -0,0 +1,308 @@
+// A self-hostable stand-in for the Azure Functions + Azure SignalR setup.
+// It speaks the same contract as the functions in this folder, just over a
+// single WebSocket instead of HTTP triggers and a SignalR hub:
+//
+//   client -> server: { endpoint: "broadcastPeerId", body: { peerId, roomId } }
+//                     { endpoint: "sendSignalData", body: { peerId, senderPeerId, roomId, data } }
+//                     { endpoint: "broadcastBeacon", body: { peerId, roomId, x, y } }
+//   server -> client: { target: "peerConnected", arguments: [userId] }
+//                     { target: "signal", arguments: [json] }
+//                     { target: "peerLeft", arguments: [userId] }
+//                     { target: "beacon", arguments: [userId, x, y] }
+//
+// Clients identify themselves with ?userId=... on the socket URL, the same
+// way the browser sets x-ms-client-principal-id for negotiate.
+//
+// ICE servers come from a plain HTTP POST to /iceServers, like the Azure
+// function of the same name.
+import * as http from "http";
+import * as url from "url";
+import * as WebSocket from "ws";
+import { isValidRoomId, roomGroupName } from "../shared/rooms";
+import { getIceServerConfig } from "../shared/iceServers";
+
+interface SignalRMessage {
+  userId?: string;
+  groupName?: string;
+  target: string;
+  arguments: any[];
+}
+
+interface SignalRGroupAction {
+  userId: string;
+  groupName: string;
+  action: "add" | "remove";
+}
+
+interface FunctionResult {
+  status: number;
+  body?: string;
+  signalRMessages?: SignalRMessage[];
+  signalRGroupActions?: SignalRGroupAction;
+}
+
+type FunctionHandler = (userId: string, body: any) => FunctionResult;
+
+const port = parseInt(process.env.PORT || "8080", 10);
+
+const connections: { [userId: string]: Set<WebSocket> } = {};
+const groups: { [groupName: string]: Set<string> } = {};
+
+const functions: { [endpoint: string]: FunctionHandler } = {
+  broadcastPeerId: (_, body) => {
+    const userId = body && body.peerId;
+    const roomId = body && body.roomId;
+
+    if (!userId) {
+      return { status: 403, body: "Pass in a peerId!" };
+    }
+
+    if (!isValidRoomId(roomId)) {
+      return { status: 403, body: "Pass in a valid roomId!" };
+    }
+
+    const groupName = roomGroupName(roomId);
+
+    return {
+      status: 200,
+      signalRGroupActions: {
+        userId,
+        groupName,
+        action: "add",
+      },
+      signalRMessages: [
+        {
+          groupName,
+          target: "peerConnected",
+          arguments: [userId],
+        },
+      ],
+    };
+  },
+
+  broadcastBeacon: (userId, body) => {
+    const peerId = body && body.peerId;
+    const roomId = body && body.roomId;
+    const x = body && body.x;
+    const y = body && body.y;
+
+    if (!peerId) {
+      return { status: 403, body: "Pass in a peerId!" };
+    }
+
+    if (!isValidRoomId(roomId)) {
+      return { status: 403, body: "Pass in a valid roomId!" };
+    }
+
+    if (typeof x !== "number" || typeof y !== "number") {
+      return { status: 403, body: "Pass in a position!" };
+    }
+
+    const groupName = roomGroupName(roomId);
+    const members = groups[groupName];
+    if (peerId !== userId || !members || !members.has(userId)) {
+      return { status: 403, body: "You can only place yourself in a room!" };
+    }
+
+    return {
+      status: 200,
+      signalRMessages: [
+        {
+          groupName,
+          target: "beacon",
+          arguments: [peerId, x, y],
+        },
+      ],
+    };
+  },
+
+  sendSignalData: (userId, body) => {
+    const peerId = body && body.peerId;
+    const senderPeerId = body && body.senderPeerId;
+    const data = body && body.data;
+    const roomId = body && body.roomId;
+
+    if (!peerId) {
+      return { status: 403, body: "Pass in a peerId!" };
+    }
+
+    if (!data) {
+      return { status: 403, body: "Pass in signal data!" };
+    }
+
+    if (!isValidRoomId(roomId)) {
+      return { status: 403, body: "Pass in a valid roomId!" };
+    }
+
+    // Unlike Azure, we know who is in which room, so enforce it here too.
+    const members = groups[roomGroupName(roomId)];
+    if (!members || !members.has(userId) || !members.has(peerId)) {
+      return { status: 403, body: "Both peers must be in the room!" };
+    }
+
+    return {
+      status: 200,
+      signalRMessages: [
+        {
+          userId: peerId,
+          target: "signal",
+          arguments: [JSON.stringify({ data, peerId: senderPeerId, roomId })],
+        },
+      ],
+    };
+  },
+};
+
+function applyGroupAction(action: SignalRGroupAction) {
+  const { userId, groupName } = action;
+  if (action.action === "add") {
+    groups[groupName] = groups[groupName] || new Set();
+    groups[groupName].add(userId);
+  } else if (groups[groupName]) {
+    groups[groupName].delete(userId);
+  }
+}
+
+function sendToUser(userId: string, message: SignalRMessage) {
+  const sockets = connections[userId];
+  if (!sockets) return;
+
+  const json = JSON.stringify({
+    target: message.target,
+    arguments: message.arguments,
+  });
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(json);
+    }
+  });
+}
+
+function deliver(message: SignalRMessage) {
+  if (message.userId) {
+    sendToUser(message.userId, message);
+  } else if (message.groupName) {
+    (groups[message.groupName] || new Set()).forEach((userId) =>
+      sendToUser(userId, message)
+    );
+  } else {
+    Object.keys(connections).forEach((userId) => sendToUser(userId, message));
+  }
+}
+
+function handleMessage(userId: string, raw: WebSocket.Data) {
+  let request: { endpoint: string; body?: any };
+  try {
+    request = JSON.parse(raw.toString());
+  } catch (e) {
+    console.error("Could not parse message from", userId, e);
+    return;
+  }
+
+  if (
+    !request ||
+    typeof request !== "object" ||
+    typeof request.endpoint !== "string"
+  ) {
+    console.error("Bad message from", userId);
+    return;
+  }
+
+  // Own properties only, so "constructor" and friends aren't endpoints
+  if (!Object.prototype.hasOwnProperty.call(functions, request.endpoint)) {
+    console.error("Unknown endpoint", request.endpoint);
+    return;
+  }
+  const fn = functions[request.endpoint];
+
+  // One bad message shouldn't take down every room on the server
+  let result: FunctionResult;
+  try {
+    result = fn(userId, request.body);
+  } catch (e) {
+    console.error(request.endpoint, "failed for", userId, e);
+    return;
+  }
+
+  if (result.status !== 200) {
+    console.error(request.endpoint, result.status, result.body);
+    return;
+  }
+
+  // Group actions are applied before messages go out, matching the order
+  // the SignalR output bindings are processed in.
+  if (result.signalRGroupActions) {
+    applyGroupAction(result.signalRGroupActions);
+  }
+  (result.signalRMessages || []).forEach(deliver);
+}
+
+function removeConnection(userId: string, socket: WebSocket) {
+  const sockets = connections[userId];
+  if (!sockets) return;
+
+  sockets.delete(socket);
+  if (sockets.size > 0) return;
+
+  delete connections[userId];
+  Object.keys(groups).forEach((groupName) => {
+    if (!groups[groupName].has(userId)) return;
+
+    applyGroupAction({ userId, groupName, action: "remove" });
+    deliver({ groupName, target: "peerLeft", arguments: [userId] });
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const cors = {
+    "Access-Control-Allow-Origin": req.headers.origin || "*",
+    "Access-Control-Allow-Credentials": "true",
+    "Access-Control-Allow-Headers": "x-ms-client-principal-id, content-type",
+  };
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  if (req.method === "POST" && url.parse(req.url).pathname === "/iceServers") {
+    const userId = req.headers["x-ms-client-principal-id"] as string;
+    if (!userId) {
+      res.writeHead(403, { ...cors, "Content-Type": "text/plain" });
+      res.end("Pass in a userId!");
+      return;
+    }
+
+    res.writeHead(200, { ...cors, "Content-Type": "application/json" });
+    res.end(JSON.stringify(getIceServerConfig(userId)));
+    return;
+  }
+
+  res.writeHead(200, { ...cors, "Content-Type": "text/plain" });
+  res.end("spatial-webrtc-test signaling server\n");
+});
+
+const wss = new WebSocket.Server({ server });
+
+wss.on("connection", (socket, req) => {
+  const userId = url.parse(req.url, true).query.userId as string;
+  if (!userId) {
+    socket.close(4003, "Pass in a userId!");
+    return;
+  }
+
+  console.log("Connected", userId);
+  connections[userId] = connections[userId] || new Set();
+  connections[userId].add(socket);
+
+  socket.on("message", (data) => handleMessage(userId, data));
+  socket.on("close", () => {
+    console.log("Disconnected", userId);
+    removeConnection(userId, socket);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Signaling server listening on port ${port}`);
+});
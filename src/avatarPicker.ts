@@ -0,0 +1,79 @@
+import { AVATARS } from "./avatars";
+import { addCustomAvatar } from "./customAvatars";
+
+// Lets someone pick a rigged SVG of their own. Anything wrong with the rig
+// is listed underneath rather than accepted.
+function uploadButton(
+  problemList: HTMLUListElement,
+  onUploaded: (name: string) => void
+) {
+  const label = document.createElement("label");
+  label.className = "upload";
+  label.textContent = "Upload your own SVG";
+
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".svg,image/svg+xml";
+  input.onchange = async () => {
+    const file = input.files && input.files[0];
+    if (!file) return;
+
+    problemList.innerHTML = "";
+    const { name, problems } = await addCustomAvatar(await file.text());
+    if (name) {
+      onUploaded(name);
+      return;
+    }
+
+    problems.forEach((problem) => {
+      const item = document.createElement("li");
+      item.textContent = problem;
+      problemList.appendChild(item);
+    });
+    input.value = "";
+  };
+
+  label.appendChild(input);
+  return label;
+}
+
+// A row of avatar thumbnails over the page. Resolves with whichever one is
+// clicked (or uploaded), then goes away.
+export function pickAvatar(current?: string): Promise<string> {
+  return new Promise((resolve) => {
+    const picker = document.createElement("div");
+    picker.id = "avatarPicker";
+
+    const title = document.createElement("h2");
+    title.textContent = "Pick an avatar";
+    picker.appendChild(title);
+
+    AVATARS.forEach((avatar) => {
+      const button = document.createElement("button");
+      button.className = avatar === current ? "selected" : "";
+      button.title = avatar;
+
+      const image = document.createElement("img");
+      image.src = `./svgs/${avatar}.svg`;
+      image.alt = avatar;
+      button.appendChild(image);
+
+      button.onclick = () => {
+        picker.remove();
+        resolve(avatar);
+      };
+      picker.appendChild(button);
+    });
+
+    const problemList = document.createElement("ul");
+    picker.appendChild(
+      uploadButton(problemList, (name) => {
+        picker.remove();
+        resolve(name);
+      })
+    );
+    picker.appendChild(problemList);
+
+    document.body.appendChild(picker);
+  });
+}
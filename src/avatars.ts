@@ -0,0 +1,11 @@
+// The rigged SVGs in svgs/ that anyone can pick
+export const AVATARS = ["girl", "boy", "abstract", "blathers", "tom-nook"];
+
+export const DEFAULT_AVATAR = "girl";
+
+// What we show for a peer until they tell us what they picked
+export const DEFAULT_PEER_AVATAR = "boy";
+
+export function isAvatarName(name: any): name is string {
+  return typeof name === "string" && AVATARS.indexOf(name) !== -1;
+}
@@ -0,0 +1,13 @@
+const BASE_DELAY = 500;
+const MAX_DELAY = 10000;
+
+// Exponential backoff with jitter, so a room full of clients that all lost
+// the same Wi-Fi don't all hammer the server on the same tick.
+export function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_DELAY, BASE_DELAY * Math.pow(2, attempt));
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+export function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
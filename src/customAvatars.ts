@@ -0,0 +1,201 @@
+import { SVGUtils } from "./poseNetUtils/svgUtils";
+import { validateRig, validateSkinning } from "./illustrationGen/rigValidation";
+import { sendToPeer } from "./networking";
+import { encodeMessage } from "./messages";
+
+// Avatars people upload themselves. They're known by the SHA-256 of the SVG,
+// so peers only ever download a given avatar once, and can tell if what they
+// got isn't what was advertised.
+
+export const AVATAR_TRANSFER_VERSION = 1;
+
+// Ask whoever advertised an avatar to send it over
+export interface AvatarRequest {
+  hash: string;
+}
+
+// One piece of an avatar's SVG
+export interface AvatarChunk {
+  hash: string;
+  index: number;
+  count: number;
+  data: string;
+}
+
+const CUSTOM_PREFIX = "custom:";
+const HASH_PATTERN = /^custom:([0-9a-f]{64})$/;
+
+// Characters per chunk. Well under the 16KB that every browser's data
+// channel can take in one message, even after JSON escaping.
+const CHUNK_SIZE = 8 * 1024;
+const MAX_AVATAR_SIZE = 1024 * 1024;
+const MAX_CHUNKS = Math.ceil(MAX_AVATAR_SIZE / CHUNK_SIZE);
+const DOWNLOAD_TIMEOUT = 30000;
+
+interface Download {
+  chunks: string[];
+  received: number;
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (reason: any) => void;
+  timer: number;
+}
+
+// Our own uploads and everything we've downloaded, by hash
+const svgs: { [hash: string]: string } = {};
+const downloads: { [hash: string]: Download } = {};
+
+export function customAvatarName(hash: string) {
+  return CUSTOM_PREFIX + hash;
+}
+
+// Undefined for the built-in avatars
+export function customAvatarHash(name: string): string | undefined {
+  const match = HASH_PATTERN.exec(name);
+  return match ? match[1] : undefined;
+}
+
+export function getCustomAvatarSVG(hash: string): string | undefined {
+  return svgs[hash];
+}
+
+async function hashSVG(svg: string): Promise<string> {
+  const bytes = new TextEncoder().encode(svg);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Returns a readable list of what's wrong with it, empty if nothing is
+export async function checkAvatarSVG(svg: string): Promise<string[]> {
+  if (svg.length > MAX_AVATAR_SIZE) {
+    return [
+      `The file is ${Math.round(svg.length / 1024)}KB, avatars can be at most ${
+        MAX_AVATAR_SIZE / 1024
+      }KB`,
+    ];
+  }
+
+  try {
+    const scope = await SVGUtils.importSVG(SVGUtils.parseSVGMarkup(svg));
+    const problems = validateRig(scope.project);
+    return problems.length > 0 ? problems : validateSkinning(scope);
+  } catch (e) {
+    return [`That doesn't look like an SVG: ${e}`];
+  }
+}
+
+// Validates one of our own, returning the name to use for it if it's fine
+export async function addCustomAvatar(
+  svg: string
+): Promise<{ name?: string; problems: string[] }> {
+  const problems = await checkAvatarSVG(svg);
+  if (problems.length > 0) {
+    return { problems };
+  }
+
+  const hash = await hashSVG(svg);
+  svgs[hash] = svg;
+  return { name: customAvatarName(hash), problems };
+}
+
+// Resolves once we have the avatar, downloading it from peerId if we need to
+export function fetchCustomAvatar(peerId: string, hash: string) {
+  if (svgs[hash]) return Promise.resolve();
+  if (downloads[hash]) return downloads[hash].promise;
+
+  const download = { chunks: [], received: 0 } as Download;
+  download.promise = new Promise<void>((resolve, reject) => {
+    download.resolve = resolve;
+    download.reject = reject;
+  });
+  download.timer = window.setTimeout(() => {
+    delete downloads[hash];
+    download.reject("Timed out");
+  }, DOWNLOAD_TIMEOUT);
+  downloads[hash] = download;
+
+  const request: AvatarRequest = { hash };
+  try {
+    sendToPeer(
+      peerId,
+      encodeMessage("avatarRequest", AVATAR_TRANSFER_VERSION, request)
+    );
+  } catch (e) {
+    // They disconnected before we could ask
+    clearTimeout(download.timer);
+    delete downloads[hash];
+    download.reject(`Couldn't ask ${peerId} for the avatar: ${e}`);
+  }
+  return download.promise;
+}
+
+export function handleAvatarRequest(peerId: string, request: AvatarRequest) {
+  const svg = request && svgs[request.hash];
+  if (!svg) return;
+
+  const count = Math.ceil(svg.length / CHUNK_SIZE);
+  for (let index = 0; index < count; index++) {
+    const chunk: AvatarChunk = {
+      hash: request.hash,
+      index,
+      count,
+      data: svg.substr(index * CHUNK_SIZE, CHUNK_SIZE),
+    };
+    try {
+      sendToPeer(
+        peerId,
+        encodeMessage("avatarChunk", AVATAR_TRANSFER_VERSION, chunk)
+      );
+    } catch (e) {
+      // They disconnected partway through, they'll ask again if they need to
+      console.log("Stopped sending avatar", peerId, request.hash, e);
+      return;
+    }
+  }
+}
+
+export async function handleAvatarChunk(peerId: string, chunk: AvatarChunk) {
+  // Only accept things we asked for
+  const download = chunk && downloads[chunk.hash];
+  if (!download) return;
+
+  const { hash, index, count, data } = chunk;
+  if (
+    !Number.isInteger(count) ||
+    count < 1 ||
+    count > MAX_CHUNKS ||
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= count ||
+    typeof data !== "string"
+  ) {
+    console.log("Bad avatar chunk", peerId, hash);
+    return;
+  }
+
+  if (download.chunks[index] === undefined) {
+    download.chunks[index] = data;
+    download.received++;
+  }
+  if (download.received < count) return;
+
+  clearTimeout(download.timer);
+  delete downloads[hash];
+
+  const svg = download.chunks.join("");
+  if ((await hashSVG(svg)) !== hash) {
+    download.reject("Avatar didn't match its hash");
+    return;
+  }
+
+  const problems = await checkAvatarSVG(svg);
+  if (problems.length > 0) {
+    download.reject(problems);
+    return;
+  }
+
+  svgs[hash] = svg;
+  download.resolve();
+}
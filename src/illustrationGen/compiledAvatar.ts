@@ -0,0 +1,185 @@
+import paper from "paper";
+import { Bone, BonePoint, RestPositions, Skeleton } from "./skeleton";
+import {
+  BoneSkin,
+  PoseIllustration,
+  Segment,
+  SkinnedPath,
+  Skinning,
+  createSecondaryBone,
+} from "./illustration";
+
+// Everything PoseIllustration works out when it binds an SVG to its skeleton,
+// as plain JSON. Loading one skips importing the SVG and weighting every
+// segment against every bone, which is most of the cost of a new avatar.
+
+export const COMPILED_AVATAR_VERSION = 1;
+
+type Point = [number, number];
+
+interface CompiledBone {
+  // Index into skeleton.bones of the bone this one follows
+  parent: number;
+  kp0: Point;
+  kp1: Point;
+}
+
+interface CompiledBoneSkin {
+  // Index into skeleton.bones, followed by the secondary bones
+  bone: number;
+  weight: number;
+  transform: Point;
+  anchorPerc: number;
+}
+
+interface CompiledSkinning {
+  position: Point;
+  bones: CompiledBoneSkin[];
+}
+
+interface CompiledSegment {
+  point: CompiledSkinning;
+  handleIn?: CompiledSkinning;
+  handleOut?: CompiledSkinning;
+}
+
+interface CompiledPath {
+  closed: boolean;
+  // CSS colours. Gradients come out as a flat colour.
+  fillColor: string | null;
+  strokeColor: string | null;
+  strokeWidth: number;
+  segments: CompiledSegment[];
+}
+
+export interface CompiledAvatar {
+  version: number;
+  keypoints: RestPositions;
+  secondaryBones: CompiledBone[];
+  paths: CompiledPath[];
+}
+
+function toPoint(p: paper.Point): Point {
+  return [p.x, p.y];
+}
+
+function toColor(color: paper.Color | null): string | null {
+  return color ? color.toCSS(false) : null;
+}
+
+export function compileAvatar(illustration: PoseIllustration): CompiledAvatar {
+  const skeleton = illustration.skeleton;
+  const bones = skeleton.bones.concat(skeleton.secondaryBones);
+
+  const keypoints: RestPositions = {};
+  skeleton.bones.forEach((bone) => {
+    keypoints[bone.kp0.name] = toPoint(bone.kp0.position);
+    keypoints[bone.kp1.name] = toPoint(bone.kp1.position);
+  });
+
+  const compileSkinning = (skinning: Skinning): CompiledSkinning => ({
+    position: toPoint(skinning.position),
+    bones: Object.values(skinning.skinning).map((skin) => ({
+      bone: bones.indexOf(skin.bone),
+      weight: skin.weight,
+      transform: toPoint(skin.transform.transform),
+      anchorPerc: skin.transform.anchorPerc,
+    })),
+  });
+
+  return {
+    version: COMPILED_AVATAR_VERSION,
+    keypoints,
+    secondaryBones: skeleton.secondaryBones.map((bone) => ({
+      parent: skeleton.bones.indexOf(bone.parent),
+      kp0: toPoint(bone.kp0.position),
+      kp1: toPoint(bone.kp1.position),
+    })),
+    paths: illustration.skinnedPaths.map((path) => ({
+      closed: !!path.closed,
+      fillColor: toColor(path.fillColor),
+      strokeColor: toColor(path.strokeColor),
+      strokeWidth: path.strokeWidth,
+      segments: path.segments.map((seg) => ({
+        point: compileSkinning(seg.point),
+        handleIn: seg.handleIn && compileSkinning(seg.handleIn),
+        handleOut: seg.handleOut && compileSkinning(seg.handleOut),
+      })),
+    })),
+  };
+}
+
+function restPoint(name: string, p: Point): BonePoint {
+  const position = new paper.Point(p[0], p[1]);
+  return {
+    position,
+    currentPosition: position,
+    name,
+    transformFunc: () => {},
+  };
+}
+
+// Every call gets its own skeleton and paths, so one compiled avatar can be
+// loaded for any number of players.
+export function loadCompiledAvatar(
+  compiled: CompiledAvatar,
+  scope: paper.PaperScope
+): PoseIllustration {
+  if (compiled.version !== COMPILED_AVATAR_VERSION) {
+    throw `Can't load compiled avatar v${compiled.version}, expected v${COMPILED_AVATAR_VERSION}`;
+  }
+
+  const skeleton = new Skeleton(compiled.keypoints);
+  const nosePos = skeleton.bNose3Nose4.kp1.position;
+  skeleton.secondaryBones = compiled.secondaryBones.map((b) => {
+    const parent = skeleton.bones[b.parent];
+    return createSecondaryBone(
+      parent,
+      restPoint(parent.kp0.name, b.kp0),
+      restPoint(parent.kp1.name, b.kp1),
+      nosePos
+    );
+  });
+  const bones: Bone[] = skeleton.bones.concat(skeleton.secondaryBones);
+
+  const loadSkinning = (compiledSkinning: CompiledSkinning): Skinning => {
+    const skinning: { [boneName: string]: BoneSkin } = {};
+    compiledSkinning.bones.forEach((skin) => {
+      const bone = bones[skin.bone];
+      skinning[bone.name] = {
+        bone,
+        weight: skin.weight,
+        transform: {
+          transform: new paper.Point(skin.transform[0], skin.transform[1]),
+          anchorPerc: skin.anchorPerc,
+        },
+      };
+    });
+    return {
+      skinning,
+      position: new paper.Point(
+        compiledSkinning.position[0],
+        compiledSkinning.position[1]
+      ),
+      currentPosition: new scope.Point(0, 0),
+    };
+  };
+
+  const illustration = new PoseIllustration(skeleton, null, scope);
+  illustration.skinnedPaths = compiled.paths.map(
+    (path): SkinnedPath => ({
+      closed: path.closed,
+      fillColor: path.fillColor ? new scope.Color(path.fillColor) : null,
+      strokeColor: path.strokeColor ? new scope.Color(path.strokeColor) : null,
+      strokeWidth: path.strokeWidth,
+      segments: path.segments.map(
+        (seg): Segment => ({
+          point: loadSkinning(seg.point),
+          handleIn: seg.handleIn && loadSkinning(seg.handleIn),
+          handleOut: seg.handleOut && loadSkinning(seg.handleOut),
+        })
+      ),
+    })
+  );
+  return illustration;
+}
@@ -31,7 +31,7 @@ import { AnnotatedPrediction } from "@tensorflow-models/facemesh";
 
 const MIN_CONFIDENCE_PATH_SCORE = 0.3;
 
-interface SkinnedPath {
+export interface SkinnedPath {
   closed: Boolean;
   confidenceScore?: number;
   fillColor: paper.Color | null;
@@ -46,7 +46,7 @@ interface Weight {
   value: number;
 }
 
-interface BoneSkin {
+export interface BoneSkin {
   bone: Bone;
   weight: number;
   transform: PointTransform;
@@ -60,12 +60,89 @@ export interface Skinning {
   currentPosition: paper.Point;
 }
 
-interface Segment {
+export interface Segment {
   point: Skinning;
   handleIn: Skinning;
   handleOut: Skinning;
 }
 
+// The items PoseIllustration builds avatars from: anything directly inside a
+// group whose name starts with "illustration".
+export function getIllustrationItems(
+  root: paper.Project | paper.Item
+): paper.Item[] {
+  return root
+    .getItems({ recursive: true })
+    .filter(
+      (item) =>
+        item.parent &&
+        item.parent.name &&
+        item.parent.name.startsWith("illustration")
+    );
+}
+
+// Splits a group into the keypoints drawn inside it and the paths to skin.
+export function getGroupParts(group: paper.Group) {
+  let paths: paper.Path[] = [];
+  let keypoints: {
+    [partName: string]: BonePoint;
+  } = {};
+
+  let items = group.getItems({ recursive: true });
+  items.forEach((item) => {
+    let partName = item.name
+      ? allPartNames.find((partName) => item.name.startsWith(partName))
+      : null;
+    if (partName) {
+      keypoints[partName] = {
+        position: item.bounds.center,
+        name: partName,
+        currentPosition: item.bounds.center,
+        transformFunc: () => {},
+      };
+    } else if (SVGUtils.isPath(item)) {
+      paths.push(item as paper.Path);
+    } else if (SVGUtils.isShape(item)) {
+      paths.push((item as paper.Shape).toPath());
+    }
+  });
+  return { paths, keypoints };
+}
+
+// Skeleton bones with both ends among a group's keypoints. A group's paths
+// are only skinned to these, so a group without any isn't drawn.
+export function getParentBones(
+  skeleton: Skeleton,
+  keypoints: { [partName: string]: BonePoint }
+): Bone[] {
+  return skeleton.bones.filter(
+    (bone) => keypoints[bone.kp0.name] && keypoints[bone.kp1.name]
+  );
+}
+
+// A bone between a group's own copies of parentBone's keypoints, which
+// follows parentBone around relative to the nose.
+export function createSecondaryBone(
+  parentBone: Bone,
+  kp0: BonePoint,
+  kp1: BonePoint,
+  nosePos: paper.Point
+): Bone {
+  let secondaryBone = new Bone(kp0, kp1, parentBone.skeleton, parentBone.type);
+  kp0.transformFunc = MathUtils.getTransformFunc(
+    parentBone.kp0.position,
+    nosePos,
+    kp0.position
+  );
+  kp1.transformFunc = MathUtils.getTransformFunc(
+    parentBone.kp1.position,
+    nosePos,
+    kp1.position
+  );
+  secondaryBone.parent = parentBone;
+  return secondaryBone;
+}
+
 // Represents a skinned illustration.
 export class PoseIllustration {
   skeleton: Skeleton;
@@ -77,23 +154,24 @@ export class PoseIllustration {
 
   skinnedPaths: SkinnedPath[];
 
+  // What draw() keeps on screen, one path per skinned path
+  group?: paper.Group;
+  private paths: paper.Path[] = [];
+
+  // Binds the paths in skeletonScope to the skeleton. Leave it out to fill in
+  // skinnedPaths yourself, like loadCompiledAvatar does.
   constructor(
     skeleton: Skeleton,
-    skeletonScope: paper.PaperScope,
+    skeletonScope: paper.PaperScope | null,
     scope: paper.PaperScope
   ) {
     this.scope = scope;
     this.frames = [];
-
-    let items = skeletonScope.project.getItems({ recursive: true });
-    items = items.filter(
-      (item) =>
-        item.parent &&
-        item.parent.name &&
-        item.parent.name.startsWith("illustration")
-    );
     this.skeleton = skeleton;
     this.skinnedPaths = [];
+    if (!skeletonScope) return;
+
+    let items = getIllustrationItems(skeletonScope.project);
 
     // Only support rendering path and shapes for now.
     for (let i = 0; i < items.length; i++) {
@@ -146,17 +224,76 @@ export class PoseIllustration {
     });
   }
 
+  // Builds the paper items the first time, then moves their segments to
+  // wherever the skeleton has put them. Hidden while the skeleton is invalid.
   draw(): paper.Group {
+    if (!this.group) {
+      if (!this.skeleton.isValid) {
+        return;
+      }
+      this.build();
+    }
+
+    this.group.visible = !!this.skeleton.isValid;
     if (!this.skeleton.isValid) {
-      return;
+      return this.group;
+    }
+
+    this.skinnedPaths.forEach((skinnedPath, i) => {
+      let segments = this.paths[i].segments;
+      skinnedPath.segments.forEach((seg, j) => {
+        // closePath merged the last segment into the first
+        if (j >= segments.length) {
+          if (seg.handleIn) {
+            segments[0].handleIn = seg.handleIn.currentPosition.subtract(
+              seg.point.currentPosition
+            );
+          }
+          return;
+        }
+
+        let segment = segments[j];
+        segment.point = seg.point.currentPosition;
+        if (seg.handleIn) {
+          segment.handleIn = seg.handleIn.currentPosition.subtract(
+            seg.point.currentPosition
+          );
+        }
+        if (seg.handleOut) {
+          segment.handleOut = seg.handleOut.currentPosition.subtract(
+            seg.point.currentPosition
+          );
+        }
+      });
+    });
+
+    return this.group;
+  }
+
+  // Hides the avatar without forgetting where it was
+  hide() {
+    if (this.group) {
+      this.group.visible = false;
     }
+  }
+
+  // Takes the avatar out of the scene for good
+  remove() {
+    if (this.group) {
+      this.group.remove();
+    }
+  }
+
+  private build() {
     let scope = this.scope;
-    // Add paths
-    let paths = this.skinnedPaths.map((skinnedPath) => {
+    this.paths = this.skinnedPaths.map((skinnedPath) => {
       let path = new scope.Path({
         fillColor: skinnedPath.fillColor,
         strokeColor: skinnedPath.strokeColor,
         strokeWidth: skinnedPath.strokeWidth,
+        // The group's scale used to be baked into the segments, which left
+        // stroke widths alone. Keep it that way.
+        strokeScaling: false,
         closed: skinnedPath.closed,
       });
       skinnedPath.segments.forEach((seg) => {
@@ -177,13 +314,13 @@ export class PoseIllustration {
       return path;
     });
 
-    const group = new scope.Group(paths);
+    this.group = new scope.Group(this.paths);
+    // Keep the scale on the group, so segments can be updated in skeleton space
+    this.group.applyMatrix = false;
 
     // TODO:  Do the scaling intentionally to reach a target bounding box width, given the model can vary in size
 
-    group.scale(0.3);
-
-    return group;
+    this.group.scale(0.3);
   }
 
   debugDraw() {
@@ -258,35 +395,11 @@ export class PoseIllustration {
   }
 
   bindGroup(group: paper.Group, skeleton: Skeleton) {
-    let paths: paper.Path[] = [];
-    let keypoints: {
-      [partName: string]: BonePoint;
-    } = {};
-
-    let items = group.getItems({ recursive: true });
     // Find all paths and included keypoints.
-    items.forEach((item) => {
-      let partName = item.name
-        ? allPartNames.find((partName) => item.name.startsWith(partName))
-        : null;
-      if (partName) {
-        keypoints[partName] = {
-          position: item.bounds.center,
-          name: partName,
-          currentPosition: item.bounds.center,
-          transformFunc: () => {},
-        };
-      } else if (SVGUtils.isPath(item)) {
-        paths.push(item as paper.Path);
-      } else if (SVGUtils.isShape(item)) {
-        paths.push((item as paper.Shape).toPath());
-      }
-    });
+    let { paths, keypoints } = getGroupParts(group);
     let secondaryBones: Bone[] = [];
     // Find all parent bones of the included keypoints.
-    let parentBones = skeleton.bones.filter(
-      (bone) => keypoints[bone.kp0.name] && keypoints[bone.kp1.name]
-    );
+    let parentBones = getParentBones(skeleton, keypoints);
     let nosePos = skeleton.bNose3Nose4.kp1.position;
     if (!parentBones.length) {
       return;
@@ -296,24 +409,7 @@ export class PoseIllustration {
     parentBones.forEach((parentBone) => {
       let kp0 = keypoints[parentBone.kp0.name];
       let kp1 = keypoints[parentBone.kp1.name];
-      let secondaryBone = new Bone(
-        kp0,
-        kp1,
-        parentBone.skeleton,
-        parentBone.type
-      );
-      kp0.transformFunc = MathUtils.getTransformFunc(
-        parentBone.kp0.position,
-        nosePos,
-        kp0.position
-      );
-      kp1.transformFunc = MathUtils.getTransformFunc(
-        parentBone.kp1.position,
-        nosePos,
-        kp1.position
-      );
-      secondaryBone.parent = parentBone;
-      secondaryBones.push(secondaryBone);
+      secondaryBones.push(createSecondaryBone(parentBone, kp0, kp1, nosePos));
     });
     skeleton.secondaryBones = skeleton.secondaryBones.concat(secondaryBones);
     paths.forEach((path) => {
@@ -0,0 +1,213 @@
+import paper from "paper";
+import { SVGUtils } from "../poseNetUtils/svgUtils";
+import { allPartNames, rigPartNames, Skeleton, BonePoint } from "./skeleton";
+import {
+  getIllustrationItems,
+  getGroupParts,
+  getParentBones,
+} from "./illustration";
+
+// Checks an avatar SVG has everything Skeleton and PoseIllustration expect,
+// so a broken rig gets a list of what to fix instead of a crash halfway
+// through building the skeleton.
+
+// Bones shorter than this can't give a direction to skin along
+const MIN_BONE_LENGTH = 1e-6;
+
+// Illustrator appends _1_, _2_ and so on to duplicate layer names
+function baseName(name: string) {
+  return name.replace(/(_\d+_)+$/, "");
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// The part someone probably meant, if it's close enough to guess
+function closestPartName(name: string, candidates: string[]) {
+  const lower = name.toLowerCase();
+  const exact = candidates.find((part) => part.toLowerCase() === lower);
+  if (exact) return exact;
+
+  let best: string | undefined;
+  let bestDistance = 3;
+  candidates.forEach((part) => {
+    const distance = editDistance(lower, part.toLowerCase());
+    if (distance < bestDistance) {
+      best = part;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+// Returns a readable description of each problem, or nothing if the rig is fine
+export function validateRig(root: paper.Project | paper.Item): string[] {
+  const problems: string[] = [];
+
+  const skeletonGroup = SVGUtils.findFirstItemWithPrefix(root, "skeleton");
+  if (!skeletonGroup) {
+    problems.push(
+      "There's no 'skeleton' group. Every keypoint needs to be inside a group called 'skeleton'."
+    );
+  } else {
+    // Keypoints are the shapes in the skeleton, any groups are just for tidiness
+    const names = skeletonGroup
+      .getItems({ recursive: true })
+      .filter((item) => item.name && !SVGUtils.isGroup(item))
+      .map((item) => item.name);
+
+    const missing = rigPartNames.filter(
+      (part) => !names.some((name) => name.startsWith(part))
+    );
+    const unknown = names.filter(
+      (name) => !allPartNames.some((part) => name.startsWith(part))
+    );
+
+    const suggested = new Set<string>();
+    unknown.forEach((name) => {
+      const suggestion = closestPartName(baseName(name), missing);
+      if (suggestion) {
+        suggested.add(suggestion);
+        problems.push(
+          `'${name}' isn't a keypoint name, did you mean '${suggestion}'?`
+        );
+      } else {
+        problems.push(`'${name}' isn't a keypoint name`);
+      }
+    });
+
+    missing
+      .filter((part) => !suggested.has(part))
+      .forEach((part) => problems.push(`Missing keypoint '${part}'`));
+  }
+
+  const illustrations = root
+    .getItems({ recursive: true })
+    .filter(
+      (item) =>
+        item.name &&
+        item.name.startsWith("illustration") &&
+        item.children &&
+        item.children.length > 0
+    );
+  if (illustrations.length === 0) {
+    problems.push(
+      "There's no artwork. It needs to be in a group whose name starts with 'illustration'."
+    );
+  }
+
+  return problems;
+}
+
+function isZeroLength(kp0: BonePoint, kp1: BonePoint) {
+  return kp0.position.getDistance(kp1.position) < MIN_BONE_LENGTH;
+}
+
+function describe(item: paper.Item) {
+  return item.name ? `'${item.name}'` : `An unnamed ${item.className}`;
+}
+
+// Whether PoseIllustration will pick this item up. Only groups, paths and
+// shapes directly inside an illustration group are, along with everything
+// inside those groups.
+function isDrawn(item: paper.Item) {
+  for (let current = item; current.parent; current = current.parent) {
+    const parentName = current.parent.name;
+    if (parentName && parentName.startsWith("illustration")) {
+      return (
+        SVGUtils.isGroup(current) ||
+        SVGUtils.isPath(current) ||
+        SVGUtils.isShape(current)
+      );
+    }
+  }
+  return false;
+}
+
+// The second half of checking a rig, once validateRig is happy with it:
+// builds the Skeleton and binds paths the same way PoseIllustration does.
+export function validateSkinning(scope: paper.PaperScope): string[] {
+  const problems: string[] = [];
+
+  let skeleton: Skeleton;
+  try {
+    skeleton = new Skeleton(scope);
+  } catch (e) {
+    return [`Couldn't build the skeleton: ${e}`];
+  }
+
+  skeleton.bones
+    .filter((bone) => isZeroLength(bone.kp0, bone.kp1))
+    .forEach((bone) =>
+      problems.push(
+        `Bone '${bone.name}' has zero length, its keypoints are in the same place`
+      )
+    );
+
+  // Loose paths bind to whichever bones are nearest, so can't miss. Groups
+  // are only skinned to bones they have both keypoints of.
+  getIllustrationItems(scope.project)
+    .filter((item) => SVGUtils.isGroup(item))
+    .forEach((group) => {
+      const { paths, keypoints } = getGroupParts(group as paper.Group);
+      const parentBones = getParentBones(skeleton, keypoints);
+
+      if (parentBones.length === 0) {
+        if (paths.length > 0) {
+          problems.push(
+            `${describe(group)} has ${
+              paths.length
+            } path(s) but not both keypoints of any bone, so none of them bind to a bone`
+          );
+        }
+        return;
+      }
+
+      parentBones
+        .filter((bone) =>
+          isZeroLength(keypoints[bone.kp0.name], keypoints[bone.kp1.name])
+        )
+        .forEach((bone) =>
+          problems.push(
+            `Bone '${bone.name}' in ${describe(
+              group
+            )} has zero length, its keypoints are in the same place`
+          )
+        );
+    });
+
+  const skeletonGroup = SVGUtils.findFirstItemWithPrefix(
+    scope.project,
+    "skeleton"
+  );
+  scope.project
+    .getItems({ recursive: true })
+    .filter((item) => SVGUtils.isPath(item) || SVGUtils.isShape(item))
+    // paper clips the import to the SVG's viewBox with one of these
+    .filter((item) => !item.clipMask)
+    .filter((item) => !skeletonGroup || !item.isDescendant(skeletonGroup))
+    .filter((item) => !isDrawn(item))
+    .forEach((item) =>
+      problems.push(
+        `${describe(
+          item
+        )} isn't in an illustration group, so it doesn't bind to a bone and won't be drawn`
+      )
+    );
+
+  return problems;
+}
@@ -43,7 +43,8 @@ const MIN_FACE_SCORE = 0.8;
 
 const legPartNames = ["leftKnee", "leftAnkle", "rightKnee", "rightAnkle"];
 
-const posePartNames = [
+// Pose keypoints the rig is driven by. Legs are inferred from the hips.
+export const posePartNames = [
   "leftHip",
   "leftWrist",
   "leftElbow",
@@ -211,6 +212,23 @@ const facePartNames = [
 
 export const allPartNames = posePartNames.concat(facePartNames, legPartNames);
 
+// Keypoints the Skeleton constructor looks up in an avatar's skeleton group.
+// The ears and outer jaw points are tracked but never part of the rig.
+export const rigPartNames = allPartNames.filter(
+  (name) =>
+    [
+      "leftEar",
+      "rightEar",
+      "leftJaw0",
+      "leftJaw1",
+      "rightJaw0",
+      "rightJaw1",
+    ].indexOf(name) === -1
+);
+
+// Where each keypoint sits in the avatar's rest pose, as [x, y]
+export type RestPositions = { [partName: string]: [number, number] };
+
 export interface BonePoint {
   baseTransFunc?: Function;
   currentPosition: paper.Point;
@@ -319,6 +337,21 @@ function getKeyPointFromSVG(
   };
 }
 
+function getKeyPointFromPositions(
+  positions: RestPositions,
+  partName: string
+): BonePoint | null {
+  let p = positions[partName];
+  if (!p) return null;
+  let position = new paper.Point(p[0], p[1]);
+  return {
+    position: position,
+    currentPosition: position,
+    name: partName,
+    transformFunc: () => {},
+  };
+}
+
 function getPartFromPose(pose: Pose, name: string): Part | null {
   if (!pose || !pose.keypoints) {
     return null;
@@ -359,144 +392,107 @@ export class Skeleton {
   leftEarP2FFunc: any;
   rightEarP2FFunc: any;
 
-  constructor(scope: paper.PaperScope) {
-    let skeletonGroup = SVGUtils.findFirstItemWithPrefix(
-      scope.project,
-      "skeleton"
-    );
+  // Built from an imported SVG, or from the rest positions saved in a
+  // compiled avatar (see compiledAvatar.ts)
+  constructor(source: paper.PaperScope | RestPositions) {
+    let getKeyPoint: (partName: string) => BonePoint | null;
+    if (source instanceof paper.PaperScope) {
+      let skeletonGroup = SVGUtils.findFirstItemWithPrefix(
+        source.project,
+        "skeleton"
+      );
 
-    if (!skeletonGroup)
-      throw "Skeleton not found! Double-check your SVG has a group called 'skeleton'";
+      if (!skeletonGroup)
+        throw "Skeleton not found! Double-check your SVG has a group called 'skeleton'";
+      getKeyPoint = (partName) => getKeyPointFromSVG(skeletonGroup, partName);
+    } else {
+      getKeyPoint = (partName) => getKeyPointFromPositions(source, partName);
+    }
 
     // Pose
-    let leftAnkle = getKeyPointFromSVG(skeletonGroup, "leftAnkle");
-    let leftKnee = getKeyPointFromSVG(skeletonGroup, "leftKnee");
-    let leftHip = getKeyPointFromSVG(skeletonGroup, "leftHip");
-    let leftWrist = getKeyPointFromSVG(skeletonGroup, "leftWrist");
-    let leftElbow = getKeyPointFromSVG(skeletonGroup, "leftElbow");
-    let leftShoulder = getKeyPointFromSVG(skeletonGroup, "leftShoulder");
-    let rightAnkle = getKeyPointFromSVG(skeletonGroup, "rightAnkle");
-    let rightKnee = getKeyPointFromSVG(skeletonGroup, "rightKnee");
-    let rightHip = getKeyPointFromSVG(skeletonGroup, "rightHip");
-    let rightWrist = getKeyPointFromSVG(skeletonGroup, "rightWrist");
-    let rightElbow = getKeyPointFromSVG(skeletonGroup, "rightElbow");
-    let rightShoulder = getKeyPointFromSVG(skeletonGroup, "rightShoulder");
+    let leftAnkle = getKeyPoint("leftAnkle");
+    let leftKnee = getKeyPoint("leftKnee");
+    let leftHip = getKeyPoint("leftHip");
+    let leftWrist = getKeyPoint("leftWrist");
+    let leftElbow = getKeyPoint("leftElbow");
+    let leftShoulder = getKeyPoint("leftShoulder");
+    let rightAnkle = getKeyPoint("rightAnkle");
+    let rightKnee = getKeyPoint("rightKnee");
+    let rightHip = getKeyPoint("rightHip");
+    let rightWrist = getKeyPoint("rightWrist");
+    let rightElbow = getKeyPoint("rightElbow");
+    let rightShoulder = getKeyPoint("rightShoulder");
 
     // Face
-    let topMid = getKeyPointFromSVG(skeletonGroup, "topMid");
-    let rightTop0 = getKeyPointFromSVG(skeletonGroup, "rightTop0");
-    let rightTop1 = getKeyPointFromSVG(skeletonGroup, "rightTop1");
-    let leftTop0 = getKeyPointFromSVG(skeletonGroup, "leftTop0");
-    let leftTop1 = getKeyPointFromSVG(skeletonGroup, "leftTop1");
-    let leftJaw2 = getKeyPointFromSVG(skeletonGroup, "leftJaw2");
-    let leftJaw3 = getKeyPointFromSVG(skeletonGroup, "leftJaw3");
-    let leftJaw4 = getKeyPointFromSVG(skeletonGroup, "leftJaw4");
-    let leftJaw5 = getKeyPointFromSVG(skeletonGroup, "leftJaw5");
-    let leftJaw6 = getKeyPointFromSVG(skeletonGroup, "leftJaw6");
-    let leftJaw7 = getKeyPointFromSVG(skeletonGroup, "leftJaw7");
-    let jawMid = getKeyPointFromSVG(skeletonGroup, "jawMid");
-    let rightJaw2 = getKeyPointFromSVG(skeletonGroup, "rightJaw2");
-    let rightJaw3 = getKeyPointFromSVG(skeletonGroup, "rightJaw3");
-    let rightJaw4 = getKeyPointFromSVG(skeletonGroup, "rightJaw4");
-    let rightJaw5 = getKeyPointFromSVG(skeletonGroup, "rightJaw5");
-    let rightJaw6 = getKeyPointFromSVG(skeletonGroup, "rightJaw6");
-    let rightJaw7 = getKeyPointFromSVG(skeletonGroup, "rightJaw7");
-    let nose0 = getKeyPointFromSVG(skeletonGroup, "nose0");
-    let nose1 = getKeyPointFromSVG(skeletonGroup, "nose1");
-    let nose2 = getKeyPointFromSVG(skeletonGroup, "nose2");
-    let nose3 = getKeyPointFromSVG(skeletonGroup, "nose3");
-    let nose4 = getKeyPointFromSVG(skeletonGroup, "nose4");
-    let leftNose0 = getKeyPointFromSVG(skeletonGroup, "leftNose0");
-    let leftNose1 = getKeyPointFromSVG(skeletonGroup, "leftNose1");
-    let rightNose0 = getKeyPointFromSVG(skeletonGroup, "rightNose0");
-    let rightNose1 = getKeyPointFromSVG(skeletonGroup, "rightNose1");
-    let leftEye0 = getKeyPointFromSVG(skeletonGroup, "leftEye0");
-    let leftEye1 = getKeyPointFromSVG(skeletonGroup, "leftEye1");
-    let leftEye2 = getKeyPointFromSVG(skeletonGroup, "leftEye2");
-    let leftEye3 = getKeyPointFromSVG(skeletonGroup, "leftEye3");
-    let leftEye4 = getKeyPointFromSVG(skeletonGroup, "leftEye4");
-    let leftEye5 = getKeyPointFromSVG(skeletonGroup, "leftEye5");
-    let rightEye0 = getKeyPointFromSVG(skeletonGroup, "rightEye0");
-    let rightEye1 = getKeyPointFromSVG(skeletonGroup, "rightEye1");
-    let rightEye2 = getKeyPointFromSVG(skeletonGroup, "rightEye2");
-    let rightEye3 = getKeyPointFromSVG(skeletonGroup, "rightEye3");
-    let rightEye4 = getKeyPointFromSVG(skeletonGroup, "rightEye4");
-    let rightEye5 = getKeyPointFromSVG(skeletonGroup, "rightEye5");
-    let leftBrow0 = getKeyPointFromSVG(skeletonGroup, "leftBrow0");
-    let leftBrow1 = getKeyPointFromSVG(skeletonGroup, "leftBrow1");
-    let leftBrow2 = getKeyPointFromSVG(skeletonGroup, "leftBrow2");
-    let leftBrow3 = getKeyPointFromSVG(skeletonGroup, "leftBrow3");
-    let leftBrow4 = getKeyPointFromSVG(skeletonGroup, "leftBrow4");
-    let rightBrow0 = getKeyPointFromSVG(skeletonGroup, "rightBrow0");
-    let rightBrow1 = getKeyPointFromSVG(skeletonGroup, "rightBrow1");
-    let rightBrow2 = getKeyPointFromSVG(skeletonGroup, "rightBrow2");
-    let rightBrow3 = getKeyPointFromSVG(skeletonGroup, "rightBrow3");
-    let rightBrow4 = getKeyPointFromSVG(skeletonGroup, "rightBrow4");
-    let leftMouthCorner = getKeyPointFromSVG(skeletonGroup, "leftMouthCorner");
-    let leftUpperLipTop0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftUpperLipTop0"
-    );
-    let leftUpperLipTop1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftUpperLipTop1"
-    );
-    let upperLipTopMid = getKeyPointFromSVG(skeletonGroup, "upperLipTopMid");
-    let rightMouthCorner = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightMouthCorner"
-    );
-    let rightUpperLipTop0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightUpperLipTop0"
-    );
-    let rightUpperLipTop1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightUpperLipTop1"
-    );
-    let rightMiddleLip = getKeyPointFromSVG(skeletonGroup, "rightMiddleLip");
-    let rightUpperLipBottom1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightUpperLipBottom1"
-    );
-    let leftMiddleLip = getKeyPointFromSVG(skeletonGroup, "leftMiddleLip");
-    let leftUpperLipBottom1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftUpperLipBottom1"
-    );
-    let upperLipBottomMid = getKeyPointFromSVG(
-      skeletonGroup,
-      "upperLipBottomMid"
-    );
-    let rightLowerLipTop0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightLowerLipTop0"
-    );
-    let leftLowerLipTop0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftLowerLipTop0"
-    );
-    let lowerLipTopMid = getKeyPointFromSVG(skeletonGroup, "lowerLipTopMid");
-    let rightLowerLipBottom0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightLowerLipBottom0"
-    );
-    let rightLowerLipBottom1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "rightLowerLipBottom1"
-    );
-    let leftLowerLipBottom0 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftLowerLipBottom0"
-    );
-    let leftLowerLipBottom1 = getKeyPointFromSVG(
-      skeletonGroup,
-      "leftLowerLipBottom1"
-    );
-    let lowerLipBottomMid = getKeyPointFromSVG(
-      skeletonGroup,
-      "lowerLipBottomMid"
-    );
+    let topMid = getKeyPoint("topMid");
+    let rightTop0 = getKeyPoint("rightTop0");
+    let rightTop1 = getKeyPoint("rightTop1");
+    let leftTop0 = getKeyPoint("leftTop0");
+    let leftTop1 = getKeyPoint("leftTop1");
+    let leftJaw2 = getKeyPoint("leftJaw2");
+    let leftJaw3 = getKeyPoint("leftJaw3");
+    let leftJaw4 = getKeyPoint("leftJaw4");
+    let leftJaw5 = getKeyPoint("leftJaw5");
+    let leftJaw6 = getKeyPoint("leftJaw6");
+    let leftJaw7 = getKeyPoint("leftJaw7");
+    let jawMid = getKeyPoint("jawMid");
+    let rightJaw2 = getKeyPoint("rightJaw2");
+    let rightJaw3 = getKeyPoint("rightJaw3");
+    let rightJaw4 = getKeyPoint("rightJaw4");
+    let rightJaw5 = getKeyPoint("rightJaw5");
+    let rightJaw6 = getKeyPoint("rightJaw6");
+    let rightJaw7 = getKeyPoint("rightJaw7");
+    let nose0 = getKeyPoint("nose0");
+    let nose1 = getKeyPoint("nose1");
+    let nose2 = getKeyPoint("nose2");
+    let nose3 = getKeyPoint("nose3");
+    let nose4 = getKeyPoint("nose4");
+    let leftNose0 = getKeyPoint("leftNose0");
+    let leftNose1 = getKeyPoint("leftNose1");
+    let rightNose0 = getKeyPoint("rightNose0");
+    let rightNose1 = getKeyPoint("rightNose1");
+    let leftEye0 = getKeyPoint("leftEye0");
+    let leftEye1 = getKeyPoint("leftEye1");
+    let leftEye2 = getKeyPoint("leftEye2");
+    let leftEye3 = getKeyPoint("leftEye3");
+    let leftEye4 = getKeyPoint("leftEye4");
+    let leftEye5 = getKeyPoint("leftEye5");
+    let rightEye0 = getKeyPoint("rightEye0");
+    let rightEye1 = getKeyPoint("rightEye1");
+    let rightEye2 = getKeyPoint("rightEye2");
+    let rightEye3 = getKeyPoint("rightEye3");
+    let rightEye4 = getKeyPoint("rightEye4");
+    let rightEye5 = getKeyPoint("rightEye5");
+    let leftBrow0 = getKeyPoint("leftBrow0");
+    let leftBrow1 = getKeyPoint("leftBrow1");
+    let leftBrow2 = getKeyPoint("leftBrow2");
+    let leftBrow3 = getKeyPoint("leftBrow3");
+    let leftBrow4 = getKeyPoint("leftBrow4");
+    let rightBrow0 = getKeyPoint("rightBrow0");
+    let rightBrow1 = getKeyPoint("rightBrow1");
+    let rightBrow2 = getKeyPoint("rightBrow2");
+    let rightBrow3 = getKeyPoint("rightBrow3");
+    let rightBrow4 = getKeyPoint("rightBrow4");
+    let leftMouthCorner = getKeyPoint("leftMouthCorner");
+    let leftUpperLipTop0 = getKeyPoint("leftUpperLipTop0");
+    let leftUpperLipTop1 = getKeyPoint("leftUpperLipTop1");
+    let upperLipTopMid = getKeyPoint("upperLipTopMid");
+    let rightMouthCorner = getKeyPoint("rightMouthCorner");
+    let rightUpperLipTop0 = getKeyPoint("rightUpperLipTop0");
+    let rightUpperLipTop1 = getKeyPoint("rightUpperLipTop1");
+    let rightMiddleLip = getKeyPoint("rightMiddleLip");
+    let rightUpperLipBottom1 = getKeyPoint("rightUpperLipBottom1");
+    let leftMiddleLip = getKeyPoint("leftMiddleLip");
+    let leftUpperLipBottom1 = getKeyPoint("leftUpperLipBottom1");
+    let upperLipBottomMid = getKeyPoint("upperLipBottomMid");
+    let rightLowerLipTop0 = getKeyPoint("rightLowerLipTop0");
+    let leftLowerLipTop0 = getKeyPoint("leftLowerLipTop0");
+    let lowerLipTopMid = getKeyPoint("lowerLipTopMid");
+    let rightLowerLipBottom0 = getKeyPoint("rightLowerLipBottom0");
+    let rightLowerLipBottom1 = getKeyPoint("rightLowerLipBottom1");
+    let leftLowerLipBottom0 = getKeyPoint("leftLowerLipBottom0");
+    let leftLowerLipBottom1 = getKeyPoint("leftLowerLipBottom1");
+    let lowerLipBottomMid = getKeyPoint("lowerLipBottomMid");
 
     let bLeftShoulderRightShoulder = new Bone(
       leftShoulder,
@@ -1165,6 +1161,16 @@ export class Skeleton {
     });
   }
 
+  // Drops the keypoints the rig never reads (eyes, nose, legs)
+  static toRigPose(pose: Pose): Pose {
+    return {
+      score: pose.score,
+      keypoints: pose.keypoints.filter(
+        (kp) => posePartNames.indexOf(kp.part) !== -1
+      ),
+    };
+  }
+
   static toFaceFrame(faceDetection: AnnotatedPrediction): FaceFrame {
     let frame: FaceFrame = {
       positions: [],
@@ -1,100 +1,322 @@
 import paper from "paper";
-import { setUpPosenet, updatePeer, SkeletonDrawData } from "./posenet";
 import {
-  broadcastToPeers,
+  setUpPosenet,
+  setLocalAvatar,
+  setPeerAvatar,
+  updatePeer,
+  removePeer,
+  setPeerReconnecting,
+  updatePeerMarker,
+  removePeerMarker,
+} from "./posenet";
+import {
   registerAsClient,
+  sendToPeer,
+  broadcastToPeers,
   ReceivedDataHandler,
   ReceivedStreamHandler,
+  PeerConnectedHandler,
+  PeerLeftHandler,
+  PeerReconnectingHandler,
+  PeerReconnectedHandler,
+  PeerMovedAwayHandler,
+  PeerBeaconHandler,
+  setLocalPosition,
 } from "./networking";
+import { SignalingTransport } from "./signaling/signalingTransport";
+import {
+  encodeSkeletonDrawData,
+  decodeSkeletonDrawData,
+  WIRE_FORMAT_VERSION,
+} from "./wireFormat";
+import {
+  registerMessageHandler,
+  handleMessage,
+  encodeMessage,
+  encodeBinaryMessage,
+} from "./messages";
+import { isAvatarName } from "./avatars";
+import {
+  customAvatarHash,
+  fetchCustomAvatar,
+  handleAvatarRequest,
+  handleAvatarChunk,
+  AvatarRequest,
+  AvatarChunk,
+  AVATAR_TRANSFER_VERSION,
+} from "./customAvatars";
+import { pickAvatar } from "./avatarPicker";
+import {
+  addPeerAudio,
+  removePeerAudio,
+  updateSpatialAudio,
+} from "./spatialAudio";
+import { sendPoseUpdate } from "./sendScheduler";
+import {
+  recordFrame,
+  startRecording,
+  stopRecording,
+  isRecording,
+  downloadRecording,
+} from "./poseRecorder";
+import { PoseSource } from "./poseSources/poseSource";
+import { WebcamPoseSource } from "./poseSources/webcamPoseSource";
+import { PlaybackPoseSource } from "./poseSources/playbackPoseSource";
+import { SyntheticPoseSource } from "./poseSources/syntheticPoseSource";
+import { AzureSignalRTransport } from "./signaling/azureSignalRTransport";
+import { WebSocketTransport } from "./signaling/webSocketTransport";
 
-let mediaStream: MediaStream | undefined;
+const SIGNALING_URL = "https://spatial-webrtc-test.azurewebsites.net/api";
+const DEFAULT_ROOM = "lobby";
+// Same as ROOM_ID_PATTERN in server/shared/rooms.ts, which turns away anything else
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
 
-const receivedData: ReceivedDataHandler = (peerId: string, data: string) => {
-  //console.log(`Received data from ${peerId}`, data);
-  const newData: SkeletonDrawData = JSON.parse(data);
-  const skeletonDiff: Partial<SkeletonDrawData> = {};
+// Who we are, as far as other peers are concerned
+interface Profile {
+  avatar: string;
+}
+const PROFILE_VERSION = 1;
 
-  //console.log("Received data", newData);
+let profile: Profile | undefined;
+// The last profile each peer sent, so a slow avatar download can't
+// overwrite a newer choice
+const peerProfiles: { [peerId: string]: Profile } = {};
 
-  if (!newData.skeleton) {
-    console.log("Bad data");
-    return;
+// Pass ?room=<name> to join a specific room; everyone else lands in the lobby.
+// Names are up to 64 letters, numbers, dashes and underscores.
+const getRoomId = (): string => {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get("room");
+  if (!room) return DEFAULT_ROOM;
+
+  if (!ROOM_ID_PATTERN.test(room)) {
+    console.error(`"${room}" isn't a valid room name, joining the lobby`);
+    return DEFAULT_ROOM;
   }
+  return room;
+};
 
-  skeletonDiff.skeleton = newData.skeleton;
+// Pass ?signaling=ws://localhost:8080 to use a self-hosted signaling server
+// (see server/standalone) instead of Azure.
+const createTransport = (): SignalingTransport => {
+  const params = new URLSearchParams(window.location.search);
+  const signalingUrl = params.get("signaling");
+  if (signalingUrl) {
+    return new WebSocketTransport(signalingUrl);
+  }
+  return new AzureSignalRTransport(SIGNALING_URL);
+};
 
-  // By default, paper.Point objects get serialized as arrays of [TypeString, X, Y]
-  if (newData.position) {
-    skeletonDiff.position = new paper.Point(
-      newData.position[1],
-      newData.position[2]
-    );
+// Pass ?poses=synthetic for a scripted avatar, or ?poses=<url> to play back
+// a recording. Handy for bots, or demoing without a camera.
+const createPoseSource = (): PoseSource => {
+  const params = new URLSearchParams(window.location.search);
+  const poses = params.get("poses");
+  if (poses === "synthetic") {
+    return new SyntheticPoseSource();
+  } else if (poses) {
+    return new PlaybackPoseSource(poses);
   }
-  if (newData.destination) {
-    skeletonDiff.destination = new paper.Point(
-      newData.destination[1],
-      newData.destination[2]
-    );
+  return new WebcamPoseSource(document.querySelector("#webcam"));
+};
+
+// Pass ?avatar=<name> to skip the picker, e.g. for bots
+const getAvatar = async (): Promise<string> => {
+  const params = new URLSearchParams(window.location.search);
+  const avatar = params.get("avatar");
+  if (isAvatarName(avatar)) {
+    return avatar;
   }
+  return pickAvatar();
+};
+
+const changeAvatar = async () => {
+  if (!profile) return;
 
-  updatePeer(peerId, skeletonDiff);
+  const avatar = await pickAvatar(profile.avatar);
+  if (avatar === profile.avatar) return;
+
+  profile = { ...profile, avatar };
+  setLocalAvatar(avatar);
+  broadcastToPeers(encodeMessage("profile", PROFILE_VERSION, profile));
+};
+
+registerMessageHandler<Profile>("profile", {
+  version: PROFILE_VERSION,
+  handler: (peerId, peerProfile) => {
+    const avatar = peerProfile && peerProfile.avatar;
+    const hash = typeof avatar === "string" && customAvatarHash(avatar);
+    if (!hash && !isAvatarName(avatar)) {
+      console.log("Bad profile", peerId, peerProfile);
+      return;
+    }
+
+    peerProfiles[peerId] = peerProfile;
+    if (!hash) {
+      setPeerAvatar(peerId, avatar);
+      return;
+    }
+
+    fetchCustomAvatar(peerId, hash)
+      .then(() => {
+        if (peerProfiles[peerId] !== peerProfile) return;
+        setPeerAvatar(peerId, avatar);
+      })
+      .catch((e) => console.log("Could not get avatar from", peerId, e));
+  },
+});
+
+registerMessageHandler<AvatarRequest>("avatarRequest", {
+  version: AVATAR_TRANSFER_VERSION,
+  handler: handleAvatarRequest,
+});
+
+registerMessageHandler<AvatarChunk>("avatarChunk", {
+  version: AVATAR_TRANSFER_VERSION,
+  handler: handleAvatarChunk,
+});
+
+registerMessageHandler("pose", {
+  version: WIRE_FORMAT_VERSION,
+  decode: decodeSkeletonDrawData,
+  handler: (peerId, skeletonDiff) => {
+    if (!skeletonDiff.skeleton) {
+      console.log("Bad data");
+      return;
+    }
+
+    updatePeer(peerId, skeletonDiff);
+  },
+});
+
+const receivedData: ReceivedDataHandler = (
+  peerId: string,
+  data: string | Uint8Array
+) => {
+  //console.log(`Received data from ${peerId}`, data);
+  handleMessage(peerId, data);
 };
 
 const receivedStream: ReceivedStreamHandler = (
   peerId: string,
   stream: MediaStream
 ) => {
-  const audio = document.createElement("audio");
-  audio.id = `audio-${peerId}`;
-  audio.srcObject = stream;
-  audio.play();
+  // A reconnected peer sends us a fresh stream, which replaces the old one
+  addPeerAudio(peerId, stream);
 };
 
-const getMediaStream = async (): Promise<MediaStream | undefined> => {
-  console.log("Getting media stream");
-  if (mediaStream) {
-    return mediaStream;
-  }
+// Also fires when a dropped peer comes back, which may be a fresh page load
+const peerConnected: PeerConnectedHandler = (peerId: string) => {
+  if (!profile) return;
+  sendToPeer(peerId, encodeMessage("profile", PROFILE_VERSION, profile));
+};
+
+const peerLeft: PeerLeftHandler = (peerId: string) => {
+  console.log("Peer left", peerId);
+  delete peerProfiles[peerId];
+  removePeer(peerId);
+  removePeerAudio(peerId);
+  removePeerMarker(peerId);
+};
 
-  let stream = null;
+// They're still in the room, just too far away to be worth a connection.
+// Their beacons keep a marker on the map.
+const peerMovedAway: PeerMovedAwayHandler = (peerId: string) => {
+  removePeer(peerId);
+  removePeerAudio(peerId);
+};
+
+const peerBeacon: PeerBeaconHandler = (peerId, position) => {
+  updatePeerMarker(peerId, new paper.Point(position.x, position.y));
+};
+
+const peerReconnecting: PeerReconnectingHandler = (peerId: string) => {
+  setPeerReconnecting(peerId, true);
+};
+
+const peerReconnected: PeerReconnectedHandler = (peerId: string) => {
+  setPeerReconnecting(peerId, false);
+};
 
+const getAudioStream = async (): Promise<MediaStream | undefined> => {
   try {
-    stream = await navigator.mediaDevices.getUserMedia({
-      audio: false,
-      video: { facingMode: "user" },
+    return await navigator.mediaDevices.getUserMedia({
+      audio: true,
+      video: false,
     });
+  } catch (err) {
+    // Bots and camera-less demos may not have a mic either
+    console.log("Joining without audio", err);
+  }
+};
+
+const start = async () => {
+  profile = { avatar: await getAvatar() };
 
-    const video: HTMLVideoElement = document.querySelector("#webcam");
-    video.srcObject = stream;
-    video.onloadedmetadata = async (e) => {
-      video.play();
-
-      await setUpPosenet({
-        input: video,
-        output: document.querySelector("#illustration"),
-        onSkeletonUpdate: (drawData) => {
-          delete drawData.illustration;
-          const json = JSON.stringify(drawData);
-          broadcastToPeers(json);
-        },
-      });
-
-      const audioStream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: false,
-      });
-      registerAsClient(audioStream, { receivedData, receivedStream });
-    };
+  try {
+    await setUpPosenet({
+      source: createPoseSource(),
+      avatar: profile.avatar,
+      output: document.querySelector("#illustration"),
+      onSkeletonUpdate: (drawData) => {
+        recordFrame(drawData);
+        sendPoseUpdate(() =>
+          encodeBinaryMessage(
+            "pose",
+            WIRE_FORMAT_VERSION,
+            encodeSkeletonDrawData(drawData)
+          )
+        );
+      },
+      onFrame: (player, peers) => {
+        const peerPositions: { [peerId: string]: paper.Point } = {};
+        Object.keys(peers).forEach((peerId) => {
+          peerPositions[peerId] = peers[peerId].position;
+        });
+        updateSpatialAudio(player.position, peerPositions);
+        setLocalPosition(player.position);
+      },
+    });
   } catch (err) {
-    console.log("Video error", err);
-    /* handle the error */
+    console.log("Could not start pose tracking", err);
+    return;
   }
 
-  mediaStream = stream;
+  const changeAvatarButton: HTMLButtonElement = document.querySelector(
+    "#changeAvatar"
+  );
+  changeAvatarButton.style.display = "block";
+  changeAvatarButton.onclick = changeAvatar;
 
-  return stream;
+  const audioStream = await getAudioStream();
+  try {
+    await registerAsClient(createTransport(), getRoomId(), audioStream, {
+      receivedData,
+      receivedStream,
+      peerConnected,
+      peerLeft,
+      peerReconnecting,
+      peerReconnected,
+      peerMovedAway,
+      peerBeacon,
+    });
+  } catch (err) {
+    console.log("Could not join the room", err);
+  }
 };
 
+// Press r to start or stop recording poses, or shift+R to record without
+// face data. Stopping downloads a file you can play back with ?poses=<url>.
+window.addEventListener("keydown", (e) => {
+  if (e.key !== "r" && e.key !== "R") return;
+
+  if (isRecording()) {
+    stopRecording();
+  } else {
+    startRecording({ includeFace: !e.shiftKey, onFinished: downloadRecording });
+  }
+});
+
 window.addEventListener("DOMContentLoaded", () => {
-  getMediaStream();
+  start();
 });
@@ -0,0 +1,52 @@
+import * as posenet from "@tensorflow-models/posenet";
+import * as facemesh from "@tensorflow-models/facemesh";
+import * as tf from "@tensorflow/tfjs";
+import { Skeleton } from "./illustrationGen/skeleton";
+import { SkeletonData } from "./posenet";
+
+// The ML half of pose tracking. Runs inside inferenceWorker.ts when the
+// browser can manage it, otherwise on the main thread (see skeletonDetector.ts).
+
+// Messages between the main thread and the inference worker
+export type InferenceRequest = { type: "frame"; frame: ImageBitmap };
+export type InferenceResponse =
+  | { type: "ready" }
+  | { type: "skeleton"; skeleton: SkeletonData }
+  | { type: "error"; message: string };
+
+let facemeshNet: facemesh.FaceMesh;
+let posenetNet: posenet.PoseNet;
+
+export async function loadModels() {
+  console.log("Loading PoseNet model...");
+  posenetNet = await posenet.load({
+    architecture: "MobileNetV1",
+    outputStride: 16,
+    inputResolution: 257,
+    multiplier: 1.0,
+    quantBytes: 2,
+  });
+  console.log("Loading FaceMesh model...");
+  facemeshNet = await facemesh.load();
+}
+
+export async function estimateSkeleton(
+  input: HTMLVideoElement | ImageData
+): Promise<SkeletonData> {
+  const tensor = tf.browser.fromPixels(input);
+  const face = await facemeshNet.estimateFaces(tensor, false, false);
+  const poses = await posenetNet.estimatePoses(input, {
+    flipHorizontal: true,
+    decodingMethod: "multi-person",
+    maxDetections: 1,
+    scoreThreshold: 0.15,
+    nmsRadius: 30.0,
+  });
+
+  tensor.dispose();
+
+  return {
+    pose: poses[0] && Skeleton.toRigPose(poses[0]),
+    face: face[0] && Skeleton.toFaceFrame(face[0]),
+  };
+}
@@ -0,0 +1,45 @@
+import {
+  loadModels,
+  estimateSkeleton,
+  InferenceRequest,
+  InferenceResponse,
+} from "./inference";
+
+// We only have the DOM typings, where self is a Window
+const ctx: Worker = self as any;
+
+// tfjs can't read an ImageBitmap directly, so frames go through a canvas
+let canvas: OffscreenCanvas | undefined;
+let canvasContext: OffscreenCanvasRenderingContext2D | undefined;
+
+function post(message: InferenceResponse) {
+  ctx.postMessage(message);
+}
+
+function toImageData(frame: ImageBitmap): ImageData {
+  const { width, height } = frame;
+  if (!canvas || canvas.width !== width || canvas.height !== height) {
+    canvas = new OffscreenCanvas(width, height);
+    canvasContext = canvas.getContext("2d");
+  }
+
+  canvasContext.drawImage(frame, 0, 0);
+  frame.close();
+  return canvasContext.getImageData(0, 0, width, height);
+}
+
+ctx.onmessage = async (e: MessageEvent) => {
+  const request: InferenceRequest = e.data;
+  if (request.type !== "frame") return;
+
+  try {
+    const skeleton = await estimateSkeleton(toImageData(request.frame));
+    post({ type: "skeleton", skeleton });
+  } catch (err) {
+    post({ type: "error", message: String(err) });
+  }
+};
+
+loadModels()
+  .then(() => post({ type: "ready" }))
+  .catch((err) => post({ type: "error", message: String(err) }));
@@ -0,0 +1,195 @@
+import paper from "paper";
+import { Pose } from "@tensorflow-models/posenet";
+import { FaceFrame } from "./illustrationGen/skeleton";
+import { SkeletonData, SkeletonDrawData } from "./posenet";
+
+// Remote skeletons are drawn a fixed delay behind the sender, interpolating
+// between the updates on either side of that moment. Packets that arrive a
+// little late or out of order then still land before they're needed.
+
+export interface JitterBufferOptions {
+  // How far behind the sender we draw, in ms. Bigger rides out worse jitter.
+  delay: number;
+  // How long to keep moving along the last known motion once updates stop
+  maxExtrapolation: number;
+}
+
+interface Snapshot {
+  // Sender's clock, in ms
+  time: number;
+  skeleton: SkeletonData;
+  position?: paper.Point;
+  destination?: paper.Point;
+}
+
+interface PeerBuffer {
+  snapshots: Snapshot[];
+  // Our clock minus theirs, give or take the fastest network delay we've seen
+  clockOffset?: number;
+}
+
+const MAX_SNAPSHOTS = 30;
+
+// Clocks drift, so let the offset creep towards packets that arrive later
+// than expected rather than only ever trusting the fastest one
+const CLOCK_OFFSET_DRIFT = 0.01;
+
+let options: JitterBufferOptions = {
+  delay: 100,
+  maxExtrapolation: 100,
+};
+
+const buffers: { [peerId: string]: PeerBuffer } = {};
+
+export function configureJitterBuffer(
+  newOptions: Partial<JitterBufferOptions>
+) {
+  options = { ...options, ...newOptions };
+}
+
+export function pushSkeletonUpdate(
+  peerId: string,
+  update: Partial<SkeletonDrawData>,
+  now = performance.now()
+) {
+  if (!update.skeleton) return;
+
+  const buffer = (buffers[peerId] = buffers[peerId] || { snapshots: [] });
+
+  // Older clients don't timestamp their updates, so assume they were sent now
+  const time =
+    update.timestamp !== undefined
+      ? update.timestamp
+      : now - (buffer.clockOffset || 0);
+
+  const offset = now - time;
+  if (buffer.clockOffset === undefined || offset < buffer.clockOffset) {
+    buffer.clockOffset = offset;
+  } else {
+    buffer.clockOffset += (offset - buffer.clockOffset) * CLOCK_OFFSET_DRIFT;
+  }
+
+  const snapshots = buffer.snapshots;
+  if (snapshots.some((s) => s.time === time)) return;
+
+  // The pose channel is unordered, so this may belong before the newest one
+  let index = snapshots.length;
+  while (index > 0 && snapshots[index - 1].time > time) {
+    index--;
+  }
+  snapshots.splice(index, 0, {
+    time,
+    skeleton: update.skeleton,
+    position: update.position,
+    destination: update.destination,
+  });
+
+  if (snapshots.length > MAX_SNAPSHOTS) {
+    snapshots.shift();
+  }
+}
+
+export function clearJitterBuffer(peerId: string) {
+  delete buffers[peerId];
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+function lerpScore(a: number, b: number, t: number) {
+  return Math.max(0, Math.min(1, lerp(a, b, t)));
+}
+
+function interpolatePose(a: Pose | undefined, b: Pose | undefined, t: number) {
+  if (!b) return;
+
+  return {
+    score: a ? lerpScore(a.score, b.score, t) : b.score,
+    keypoints: b.keypoints.map((kb) => {
+      const ka = a && a.keypoints.find((k) => k.part === kb.part);
+      if (!ka) {
+        return { ...kb, position: { ...kb.position } };
+      }
+      return {
+        part: kb.part,
+        score: lerpScore(ka.score, kb.score, t),
+        position: {
+          x: lerp(ka.position.x, kb.position.x, t),
+          y: lerp(ka.position.y, kb.position.y, t),
+        },
+      };
+    }),
+  };
+}
+
+function interpolateFace(
+  a: FaceFrame | undefined,
+  b: FaceFrame | undefined,
+  t: number
+): FaceFrame | undefined {
+  if (!b) return;
+
+  if (!a || a.positions.length !== b.positions.length) {
+    return { ...b, positions: b.positions.slice() };
+  }
+  return {
+    faceInViewConfidence: lerpScore(
+      a.faceInViewConfidence,
+      b.faceInViewConfidence,
+      t
+    ),
+    positions: b.positions.map((p, i) => lerp(a.positions[i], p, t)),
+  };
+}
+
+function interpolate(
+  a: Snapshot,
+  b: Snapshot,
+  t: number
+): Partial<SkeletonDrawData> {
+  const position =
+    a.position && b.position
+      ? new paper.Point(
+          lerp(a.position.x, b.position.x, t),
+          lerp(a.position.y, b.position.y, t)
+        )
+      : b.position;
+
+  return {
+    skeleton: {
+      pose: interpolatePose(a.skeleton.pose, b.skeleton.pose, t),
+      face: interpolateFace(a.skeleton.face, b.skeleton.face, t),
+    },
+    position,
+    destination: b.destination,
+  };
+}
+
+// What a peer's skeleton should look like right now, as a fresh object
+export function sampleSkeleton(
+  peerId: string,
+  now = performance.now()
+): Partial<SkeletonDrawData> | undefined {
+  const buffer = buffers[peerId];
+  if (!buffer || buffer.snapshots.length === 0) return;
+
+  const snapshots = buffer.snapshots;
+  const renderTime = now - buffer.clockOffset - options.delay;
+
+  // Keep the last snapshot before renderTime and everything after it
+  while (snapshots.length > 2 && snapshots[1].time <= renderTime) {
+    snapshots.shift();
+  }
+
+  const [a, b] = snapshots;
+  if (!b || renderTime <= a.time) {
+    return interpolate(a, a, 0);
+  }
+
+  // Past the newest update, carry on the way things were going, but only
+  // briefly and never further than the gap between the last two updates
+  const target = Math.min(renderTime, b.time + options.maxExtrapolation);
+  const t = Math.min((target - a.time) / (b.time - a.time), 2);
+  return interpolate(a, b, t);
+}
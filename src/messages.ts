@@ -0,0 +1,160 @@
+// Everything sent over the data channel is wrapped in an envelope saying what
+// it is and which version of that message it is, so new kinds of messages can
+// share the channel without confusing older clients in the same room.
+//
+// Most messages are JSON strings: {"type": "chat", "version": 1, "payload": ...}
+// High-frequency ones are raw bytes instead, with a two byte header:
+//   u8 message code (see BINARY_MESSAGE_CODES), u8 version, payload...
+
+export interface MessageEnvelope<T = any> {
+  type: string;
+  version: number;
+  payload: T;
+}
+
+export type MessageHandler<T> = (
+  peerId: string,
+  payload: T,
+  version: number
+) => void;
+
+export interface MessageDefinition<T> {
+  // Newest version of this message we know how to read
+  version: number;
+  handler: MessageHandler<T>;
+  // Required for binary messages, turns the bytes after the header into a payload
+  decode?: (data: Uint8Array, version: number) => T | undefined;
+}
+
+export const BINARY_MESSAGE_CODES: { [type: string]: number } = {
+  pose: 1,
+};
+
+const BINARY_HEADER_SIZE = 2;
+
+const registry: { [type: string]: MessageDefinition<any> } = {};
+
+// Only complain once about each unknown thing, these can arrive every frame
+const warned = new Set<string>();
+function warnOnce(key: string, ...args: any[]) {
+  if (warned.has(key)) return;
+  warned.add(key);
+  console.log(...args);
+}
+
+export function registerMessageHandler<T>(
+  type: string,
+  definition: MessageDefinition<T>
+) {
+  if (BINARY_MESSAGE_CODES[type] !== undefined && !definition.decode) {
+    throw `Binary message type ${type} needs a decode function`;
+  }
+  registry[type] = definition;
+}
+
+export function encodeMessage<T>(
+  type: string,
+  version: number,
+  payload: T
+): string {
+  const envelope: MessageEnvelope<T> = { type, version, payload };
+  return JSON.stringify(envelope);
+}
+
+export function encodeBinaryMessage(
+  type: string,
+  version: number,
+  payload: ArrayBuffer
+): ArrayBuffer {
+  const code = BINARY_MESSAGE_CODES[type];
+  if (code === undefined) {
+    throw `${type} is not a binary message type`;
+  }
+
+  const bytes = new Uint8Array(BINARY_HEADER_SIZE + payload.byteLength);
+  bytes[0] = code;
+  bytes[1] = version;
+  bytes.set(new Uint8Array(payload), BINARY_HEADER_SIZE);
+  return bytes.buffer;
+}
+
+function parseEnvelope(data: string): MessageEnvelope | undefined {
+  let envelope: any;
+  try {
+    envelope = JSON.parse(data);
+  } catch (e) {
+    return;
+  }
+
+  if (
+    !envelope ||
+    typeof envelope.type !== "string" ||
+    typeof envelope.version !== "number"
+  ) {
+    return;
+  }
+  return envelope;
+}
+
+function findDefinition(
+  type: string,
+  version: number
+): MessageDefinition<any> | undefined {
+  const definition = registry[type];
+  if (!definition) {
+    warnOnce(`type:${type}`, "Ignoring unknown message type", type);
+    return;
+  }
+
+  if (version > definition.version) {
+    warnOnce(
+      `version:${type}:${version}`,
+      `Ignoring ${type} v${version}, we only understand up to v${definition.version}`
+    );
+    return;
+  }
+
+  return definition;
+}
+
+export function handleMessage(peerId: string, data: string | Uint8Array) {
+  if (typeof data === "string") {
+    const envelope = parseEnvelope(data);
+    if (!envelope) {
+      console.log("Bad data", peerId);
+      return;
+    }
+
+    const definition = findDefinition(envelope.type, envelope.version);
+    if (!definition) return;
+
+    definition.handler(peerId, envelope.payload, envelope.version);
+    return;
+  }
+
+  if (data.byteLength < BINARY_HEADER_SIZE) {
+    console.log("Bad data", peerId);
+    return;
+  }
+
+  const code = data[0];
+  const version = data[1];
+  const type = Object.keys(BINARY_MESSAGE_CODES).find(
+    (t) => BINARY_MESSAGE_CODES[t] === code
+  );
+  if (!type) {
+    warnOnce(`code:${code}`, "Ignoring unknown binary message code", code);
+    return;
+  }
+
+  const definition = findDefinition(type, version);
+  if (!definition) return;
+
+  const payload = definition.decode(data.subarray(BINARY_HEADER_SIZE), version);
+  if (payload === undefined) {
+    console.log("Bad data", peerId, type);
+    return;
+  }
+
+  definition.handler(peerId, payload, version);
+}
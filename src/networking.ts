@@ -1,50 +1,403 @@
 import Peer from "simple-peer";
-import * as SignalR from "@aspnet/signalr";
 import { v4 as uuidv4 } from "uuid";
+import {
+  SignalingTransport,
+  IceServerConfig,
+  Position,
+} from "./signaling/signalingTransport";
+import { backoffDelay } from "./backoff";
 
-export type ReceivedDataHandler = (peerId: string, data: string) => void;
+export type ReceivedDataHandler = (
+  peerId: string,
+  data: string | Uint8Array
+) => void;
+export type SendableData = string | ArrayBuffer;
+// "reliable" is simple-peer's ordered channel. "unreliable" never retransmits
+// or waits for earlier messages, which suits poses that are stale in 100ms.
+export type Channel = "reliable" | "unreliable";
 export type ReceivedStreamHandler = (
   peerId: string,
   stream: MediaStream
 ) => void;
+export type PeerConnectedHandler = (peerId: string) => void;
+export type PeerLeftHandler = (peerId: string) => void;
+export type PeerReconnectingHandler = (peerId: string) => void;
+export type PeerReconnectedHandler = (peerId: string) => void;
+export type PeerMovedAwayHandler = (peerId: string) => void;
+export type PeerBeaconHandler = (peerId: string, position: Position) => void;
+
+export interface ProximityOptions {
+  // Connect to anyone standing closer than this, in world pixels
+  connectRadius: number;
+  // Disconnect once they're further than this. Bigger than connectRadius so
+  // someone standing right on the edge doesn't keep connecting and dropping.
+  disconnectRadius: number;
+}
+
+// How long a dropped peer gets to come back before we give up on them
+const PEER_RECONNECT_TIMEOUT = 15000;
+
+// How long a connection attempt gets before we assume it's stuck. Longer
+// than the first few backoff delays, since relayed connections can be slow.
+const HANDSHAKE_TIMEOUT = 5000;
 
-let peers: { [id: string]: Peer } = {};
+// Refresh TURN credentials this long before they expire, in seconds
+const ICE_SERVER_REFRESH_MARGIN = 60;
+
+// Signals that show up before we know which connection they belong to
+const MAX_PENDING_SIGNALS = 50;
+
+// How often we tell the room where we are, and how long someone can go
+// without doing that before we forget about them
+const BEACON_INTERVAL = 1000;
+const BEACON_TIMEOUT = 10000;
+
+// Both sides create the unreliable channel themselves with this id, rather
+// than one side announcing it. Kept well clear of the ids the browser hands
+// out to simple-peer's channel.
+const UNRELIABLE_CHANNEL_ID = 1023;
+
+interface KnownPeer {
+  position?: Position;
+  lastSeen: number;
+}
+
+interface ReconnectState {
+  attempt: number;
+  startedAt: number;
+  timer?: number;
+}
+
+// @types/simple-peer is missing a few properties the library does expose
+interface PeerInstance extends Peer.Instance {
+  connected: boolean;
+  initiator: boolean;
+  _pc: RTCPeerConnection;
+
+  // Ours, not simple-peer's: which pair of Peer objects this one belongs to
+  connectionId?: string;
+  remoteConnectionId?: string;
+  createdAt?: number;
+  unreliableChannel?: RTCDataChannel;
+}
+
+// Every signal is tagged with the id of the Peer object that produced it, so
+// signals from a connection we've thrown away can't leak into a newer one.
+interface TaggedSignal extends Peer.SignalData {
+  connectionId: string;
+}
+
+let peers: { [id: string]: PeerInstance } = {};
+let reconnecting: { [id: string]: ReconnectState } = {};
+let pendingSignals: { [id: string]: TaggedSignal[] } = {};
+let rejectedConnectionIds = new Set<string>();
+// Everyone in the room, whether or not we're connected to them
+let knownPeers: { [id: string]: KnownPeer } = {};
+let proximity: ProximityOptions = {
+  connectRadius: 600,
+  disconnectRadius: 750,
+};
+let myPosition: Position | undefined;
+let lastBeaconAt = 0;
+let announced = false;
 let stream: MediaStream | undefined;
+let iceServers: RTCIceServer[] | undefined;
 
 let myPeerId: string | undefined;
+let myRoomId: string | undefined;
+let transport: SignalingTransport | undefined;
 
 let receivedDataHandler: ReceivedDataHandler | undefined;
 let receivedStreamHandler: ReceivedStreamHandler | undefined;
+let peerConnectedHandler: PeerConnectedHandler | undefined;
+let peerLeftHandler: PeerLeftHandler | undefined;
+let peerReconnectingHandler: PeerReconnectingHandler | undefined;
+let peerReconnectedHandler: PeerReconnectedHandler | undefined;
+let peerMovedAwayHandler: PeerMovedAwayHandler | undefined;
+let peerBeaconHandler: PeerBeaconHandler | undefined;
+
+function openUnreliableChannel(peer: PeerInstance) {
+  return peer.unreliableChannel && peer.unreliableChannel.readyState === "open"
+    ? peer.unreliableChannel
+    : undefined;
+}
 
-export function sendToPeer(id: string, msg: string) {
-  peers[id].send(msg);
+function send(peer: PeerInstance, msg: SendableData, channel: Channel) {
+  // Until the unreliable channel opens, everything goes the reliable way
+  const unreliable = channel === "unreliable" && openUnreliableChannel(peer);
+  if (!unreliable) {
+    peer.send(msg);
+  } else if (typeof msg === "string") {
+    // RTCDataChannel.send has overloads but none for the union
+    unreliable.send(msg);
+  } else {
+    unreliable.send(msg);
+  }
+}
+
+export function sendToPeer(
+  id: string,
+  msg: SendableData,
+  channel: Channel = "reliable"
+) {
+  send(peers[id], msg, channel);
 }
 
-export function broadcastToPeers(msg: string) {
+export function broadcastToPeers(
+  msg: SendableData,
+  channel: Channel = "reliable"
+) {
   Object.values(peers).forEach((c) => {
     if (!c.connected) return;
-    c.send(msg);
+    send(c, msg, channel);
   });
 }
 
-async function beginSignalingWithPeer(peerId: string) {
-  const peer = new Peer({ initiator: true, stream });
+export function getConnectedPeerIds(): string[] {
+  return Object.keys(peers).filter((id) => peers[id].connected);
+}
+
+// Bytes queued on the peer's data channel that haven't gone out yet
+export function getBufferedAmount(
+  id: string,
+  channel: Channel = "reliable"
+): number {
+  const peer = peers[id];
+  if (!peer) return 0;
+
+  const unreliable = channel === "unreliable" && openUnreliableChannel(peer);
+  return unreliable ? unreliable.bufferedAmount : peer.bufferSize;
+}
+
+function createPeer(peerId: string, initiator: boolean) {
+  const peer = new Peer({
+    initiator,
+    stream,
+    // Keeps strings as strings, so JSON and binary messages can be told apart
+    objectMode: true,
+    // Without this simple-peer falls back to its own public STUN servers
+    config: iceServers ? { iceServers } : undefined,
+  }) as PeerInstance;
+  peer.connectionId = uuidv4();
+  peer.createdAt = Date.now();
   peers[peerId] = peer;
   setUpPeer(peerId, peer);
+  setUpUnreliableChannel(peerId, peer);
+  return peer;
+}
+
+// Has to happen before simple-peer creates its offer, which it does in a
+// microtask right after the Peer is constructed.
+function setUpUnreliableChannel(peerId: string, peer: PeerInstance) {
+  const channel = peer._pc.createDataChannel("unreliable", {
+    negotiated: true,
+    id: UNRELIABLE_CHANNEL_ID,
+    ordered: false,
+    maxRetransmits: 0,
+  });
+  channel.binaryType = "arraybuffer";
+
+  channel.onmessage = (e) => {
+    const data = typeof e.data === "string" ? e.data : new Uint8Array(e.data);
+    receivedDataHandler(peerId, data);
+  };
+  channel.onerror = (e) => {
+    // The reliable channel takes over, no need to drop the whole peer
+    console.error(`Unreliable channel to ${peerId} errored`, e);
+  };
+
+  peer.unreliableChannel = channel;
+}
+
+function destroyPeer(peerId: string) {
+  const peer = peers[peerId];
+  if (!peer) return;
+
+  delete peers[peerId];
+  peer.destroy();
+}
+
+async function beginSignalingWithPeer(peerId: string) {
+  createPeer(peerId, true);
+}
+
+// Perfect negotiation: when both sides send an offer at once, the polite
+// peer drops its own and answers, the impolite one ignores the incoming
+// offer. Comparing ids means both sides always agree on who is who.
+function isPolite(peerId: string) {
+  return myPeerId > peerId;
+}
+
+function distanceTo(peerId: string): number | undefined {
+  const known = knownPeers[peerId];
+  if (!known || !known.position || !myPosition) return;
+
+  const dx = known.position.x - myPosition.x;
+  const dy = known.position.y - myPosition.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+function isInRange(peerId: string) {
+  const d = distanceTo(peerId);
+  return d !== undefined && d <= proximity.connectRadius;
+}
+
+function isOutOfRange(peerId: string) {
+  const d = distanceTo(peerId);
+  return d !== undefined && d > proximity.disconnectRadius;
+}
+
+function peerDropped(peerId: string, peer: PeerInstance) {
+  // A newer connection may already have replaced this one
+  if (peers[peerId] !== peer) return;
+
+  delete peers[peerId];
+  peer.destroy();
+  delete pendingSignals[peerId];
+
+  // They probably closed it because we walked away from each other
+  if (isOutOfRange(peerId)) {
+    movedAway(peerId);
+    return;
+  }
+
+  beginReconnecting(peerId);
+}
+
+function movedAway(peerId: string) {
+  const state = reconnecting[peerId];
+  if (state) {
+    clearTimeout(state.timer);
+    delete reconnecting[peerId];
+  }
+
+  destroyPeer(peerId);
+  delete pendingSignals[peerId];
+
+  console.log(`Peer ${peerId} is too far away, disconnecting`);
+  if (peerMovedAwayHandler) {
+    peerMovedAwayHandler(peerId);
+  }
+}
+
+// Connects to whoever just came into range and drops whoever left it
+function updateProximity() {
+  const now = Date.now();
+  Object.keys(knownPeers).forEach((peerId) => {
+    const connecting = peers[peerId] || reconnecting[peerId];
+
+    if (!connecting && now - knownPeers[peerId].lastSeen > BEACON_TIMEOUT) {
+      forgetPeer(peerId);
+    } else if (!connecting && isInRange(peerId)) {
+      beginSignalingWithPeer(peerId);
+    } else if (connecting && isOutOfRange(peerId)) {
+      movedAway(peerId);
+    }
+  });
+}
+
+function forgetPeer(peerId: string) {
+  delete knownPeers[peerId];
+  if (peerLeftHandler) {
+    peerLeftHandler(peerId);
+  }
+}
+
+// Both sides notice a dropped connection, but only one of them should dial
+// back in. Collisions are handled either way, this just avoids them.
+function shouldRedial(peerId: string) {
+  return !isPolite(peerId);
+}
+
+function beginReconnecting(peerId: string) {
+  if (reconnecting[peerId]) return;
+
+  console.log(`Peer ${peerId} reconnecting...`);
+  reconnecting[peerId] = { attempt: 0, startedAt: Date.now() };
+  if (peerReconnectingHandler) {
+    peerReconnectingHandler(peerId);
+  }
+
+  scheduleReconnectAttempt(peerId);
 }
 
-function setUpPeer(peerId: string, peer: Peer) {
+function scheduleReconnectAttempt(peerId: string) {
+  const state = reconnecting[peerId];
+  if (!state) return;
+
+  if (Date.now() - state.startedAt > PEER_RECONNECT_TIMEOUT) {
+    console.log(`Peer ${peerId} did not come back`);
+    giveUpOnPeer(peerId);
+    return;
+  }
+
+  if (isOutOfRange(peerId)) {
+    movedAway(peerId);
+    return;
+  }
+
+  state.timer = window.setTimeout(() => {
+    const peer = peers[peerId];
+    // The last attempt got stuck, so start over. One that's still going may
+    // be the other side's redial, halfway through being answered.
+    if (
+      peer &&
+      !peer.connected &&
+      Date.now() - peer.createdAt > HANDSHAKE_TIMEOUT
+    ) {
+      destroyPeer(peerId);
+    }
+
+    if (!peers[peerId] && shouldRedial(peerId)) {
+      beginSignalingWithPeer(peerId);
+    }
+    scheduleReconnectAttempt(peerId);
+  }, backoffDelay(state.attempt++));
+}
+
+function finishReconnecting(peerId: string) {
+  const state = reconnecting[peerId];
+  if (!state) return;
+
+  clearTimeout(state.timer);
+  delete reconnecting[peerId];
+  console.log(`Peer ${peerId} reconnected!`);
+  if (peerReconnectedHandler) {
+    peerReconnectedHandler(peerId);
+  }
+}
+
+function giveUpOnPeer(peerId: string) {
+  const state = reconnecting[peerId];
+  if (state) {
+    clearTimeout(state.timer);
+    delete reconnecting[peerId];
+  }
+
+  destroyPeer(peerId);
+  delete pendingSignals[peerId];
+  delete knownPeers[peerId];
+
+  if (peerLeftHandler) {
+    peerLeftHandler(peerId);
+  }
+}
+
+function setUpPeer(peerId: string, peer: PeerInstance) {
   peer.on("signal", (data) => {
     console.log("SIGNAL", JSON.stringify(data));
-    callAzureFunction("sendSignalData", {
-      data,
-      peerId,
-      senderPeerId: myPeerId,
-    });
+    const tagged: TaggedSignal = { ...data, connectionId: peer.connectionId };
+    transport
+      .sendSignal(peerId, myPeerId, myRoomId, tagged)
+      .catch((e) => console.error(`Could not signal ${peerId}`, e));
   });
 
   peer.on("connect", () => {
     console.log(`Peer ${peerId} connected!`);
+    finishReconnecting(peerId);
+    if (peerConnectedHandler) {
+      peerConnectedHandler(peerId);
+    }
   });
 
   peer.on("data", (data) => {
@@ -56,105 +409,229 @@ function setUpPeer(peerId: string, peer: Peer) {
     console.log("Received stream", peerId);
     receivedStreamHandler(peerId, stream);
   });
+
+  peer.on("close", () => {
+    console.log(`Peer ${peerId} closed`);
+    peerDropped(peerId, peer);
+  });
+
+  peer.on("error", (err) => {
+    console.error(`Peer ${peerId} errored`, err);
+    peerDropped(peerId, peer);
+  });
 }
 
-async function connectSignalR(uuid: string) {
-  class CustomHttpClient extends SignalR.DefaultHttpClient {
-    public send(request: SignalR.HttpRequest): Promise<SignalR.HttpResponse> {
-      request.headers = {
-        ...request.headers,
-        "x-ms-client-principal-id": uuid,
-      };
-      return super.send(request);
-    }
+function peerAnnounced(peerId: string) {
+  if (peerId === myPeerId) {
+    console.log("That was ourself. Ignoring.");
+    return;
   }
 
-  const connection = new SignalR.HubConnectionBuilder()
-    .withUrl(`https://spatial-webrtc-test.azurewebsites.net/api`, {
-      httpClient: new CustomHttpClient(console),
-    })
-    .configureLogging(SignalR.LogLevel.Information)
-    .build();
+  // We don't connect until their first beacon tells us they're close enough.
+  // Send ours right away so they don't have to wait to find out about us.
+  knownPeers[peerId] = knownPeers[peerId] || { lastSeen: Date.now() };
+  lastBeaconAt = 0;
+  sendBeacon();
+}
 
-  connection.on("peerConnected", (peerId) => {
-    console.log("got a peer to connect to!", peerId);
-    if (peerId !== uuid) {
-      beginSignalingWithPeer(peerId);
-    } else {
-      console.log("That was ourself. Ignoring.");
+function beaconReceived(peerId: string, position: Position) {
+  if (peerId === myPeerId) return;
+
+  knownPeers[peerId] = { position, lastSeen: Date.now() };
+  if (peerBeaconHandler) {
+    peerBeaconHandler(peerId, position);
+  }
+  updateProximity();
+}
+
+function sendBeacon() {
+  if (!announced || !myPosition) return;
+  if (Date.now() - lastBeaconAt < BEACON_INTERVAL) return;
+
+  lastBeaconAt = Date.now();
+  transport
+    .sendBeacon(myPeerId, myRoomId, myPosition)
+    .catch((e) => console.error("Could not send beacon", e));
+}
+
+export function configureProximity(options: Partial<ProximityOptions>) {
+  proximity = { ...proximity, ...options };
+  updateProximity();
+}
+
+// Call this whenever our avatar moves (every frame is fine)
+export function setLocalPosition(position: Position) {
+  myPosition = { x: position.x, y: position.y };
+  sendBeacon();
+  updateProximity();
+}
+
+function peerDeparted(peerId: string) {
+  const peer = peers[peerId];
+
+  // Losing signaling doesn't mean the WebRTC connection went with it.
+  // If it did, the peer's own close event will start reconnecting.
+  if (peer && peer.connected) return;
+
+  // They're gone for good, so stop trying to get them back. Usually their
+  // tab closed and the WebRTC close got here first.
+  if (peer || reconnecting[peerId]) {
+    giveUpOnPeer(peerId);
+    return;
+  }
+
+  // Someone we only knew from their beacons
+  if (knownPeers[peerId]) {
+    forgetPeer(peerId);
+  }
+}
+
+async function refreshIceServers() {
+  let config: IceServerConfig;
+  try {
+    config = await transport.getIceServers(myPeerId);
+  } catch (e) {
+    console.error("Could not get ICE servers, using defaults", e);
+    return;
+  }
+
+  iceServers = config.iceServers;
+  const refreshIn = Math.max(config.ttl - ICE_SERVER_REFRESH_MARGIN, 30);
+  setTimeout(refreshIceServers, refreshIn * 1000);
+}
+
+function signalingReconnected() {
+  // The server forgot our room membership when we dropped
+  transport
+    .announce(myPeerId, myRoomId)
+    .catch((e) => console.error("Could not rejoin the room", e));
+  lastBeaconAt = 0;
+  sendBeacon();
+}
+
+function queueSignal(peerId: string, data: TaggedSignal) {
+  const queue = (pendingSignals[peerId] = pendingSignals[peerId] || []);
+  queue.push(data);
+  if (queue.length > MAX_PENDING_SIGNALS) {
+    queue.shift();
+  }
+}
+
+function flushPendingSignals(peerId: string, peer: PeerInstance) {
+  const queue = pendingSignals[peerId] || [];
+  delete pendingSignals[peerId];
+  queue
+    .filter((data) => data.connectionId === peer.remoteConnectionId)
+    .forEach((data) => peer.signal(data));
+}
+
+function signalReceived(peerId: string, roomId: string, data: TaggedSignal) {
+  // Azure can't check room membership when routing a signal, so the room
+  // travels with it and we drop anything that wasn't meant for our room.
+  if (roomId !== myRoomId) {
+    console.log("Ignoring signal from another room", peerId, roomId);
+    return;
+  }
+
+  const { connectionId } = data;
+  if (rejectedConnectionIds.has(connectionId)) return;
+
+  let peer = peers[peerId];
+
+  if (data.type === "offer") {
+    if (peer && peer.remoteConnectionId === connectionId) {
+      peer.signal(data);
+      return;
     }
-  });
 
-  connection.on("signal", (json) => {
-    const { data, peerId } = JSON.parse(json);
-    console.log("Received signaling data!", peerId, data);
+    const collision = peer && peer.initiator && !peer.remoteConnectionId;
+    if (collision && !isPolite(peerId)) {
+      console.log("Offer collision, ignoring theirs", peerId);
+      rejectedConnectionIds.add(connectionId);
+      return;
+    }
 
-    let peer = peers[peerId];
-    if (!peer) {
-      peer = new Peer({ stream });
-      peers[peerId] = peer;
-      setUpPeer(peerId, peer);
+    // Either we're polite and yield, or they've started a new connection
+    // to replace one they consider dead.
+    if (peer) {
+      console.log("Replacing connection with", peerId);
+      destroyPeer(peerId);
     }
 
+    peer = createPeer(peerId, false);
+    peer.remoteConnectionId = connectionId;
     peer.signal(data);
-  });
-
-  connection.on("irrelevant", (data) => {
-    console.log("Irrelevant", data);
-  });
+    flushPendingSignals(peerId, peer);
+    return;
+  }
 
-  connection.onclose(() => console.log("disconnected"));
+  if (
+    peer &&
+    !peer.remoteConnectionId &&
+    peer.initiator &&
+    data.type === "answer"
+  ) {
+    peer.remoteConnectionId = connectionId;
+    peer.signal(data);
+    flushPendingSignals(peerId, peer);
+    return;
+  }
 
-  console.log("connecting...");
-  return await connection
-    .start()
-    .then(() => console.log("Connected!"))
-    .catch(console.error);
+  if (peer && peer.remoteConnectionId === connectionId) {
+    peer.signal(data);
+  } else if (!peer || !peer.remoteConnectionId) {
+    // Signaling doesn't guarantee order, so candidates can beat their offer
+    // or answer here.
+    queueSignal(peerId, data);
+  } else {
+    console.log("Ignoring signal from a stale connection", peerId);
+  }
 }
 
 export async function registerAsClient(
+  signalingTransport: SignalingTransport,
+  roomId: string,
   audioStream?: MediaStream,
   handlers?: {
     receivedData?: ReceivedDataHandler;
     receivedStream?: ReceivedStreamHandler;
+    peerConnected?: PeerConnectedHandler;
+    peerLeft?: PeerLeftHandler;
+    peerReconnecting?: PeerReconnectingHandler;
+    peerReconnected?: PeerReconnectedHandler;
+    peerMovedAway?: PeerMovedAwayHandler;
+    peerBeacon?: PeerBeaconHandler;
   }
 ) {
+  transport = signalingTransport;
   stream = audioStream;
-  const id = uuidv4();
-  myPeerId = id;
-  await connectSignalR(id);
-
-  callAzureFunction("broadcastPeerId", { peerId: id });
 
   if (handlers) {
     receivedDataHandler = handlers.receivedData;
     receivedStreamHandler = handlers.receivedStream;
-  }
-}
-
-function callAzureFunction(
-  endpoint: string,
-  body?: any,
-  options?: Partial<RequestInit>
-) {
-  let opts = {
-    method: "POST",
-    credentials: "include" as RequestCredentials, // sigh
-    ...options,
-  };
-
-  if (body) {
-    opts.body = JSON.stringify(body);
+    peerConnectedHandler = handlers.peerConnected;
+    peerLeftHandler = handlers.peerLeft;
+    peerReconnectingHandler = handlers.peerReconnecting;
+    peerReconnectedHandler = handlers.peerReconnected;
+    peerMovedAwayHandler = handlers.peerMovedAway;
+    peerBeaconHandler = handlers.peerBeacon;
   }
 
-  return fetch(
-    `https://spatial-webrtc-test.azurewebsites.net/api/${endpoint}`,
-    opts
-  ).then((r) => {
-    if (r.ok) {
-      console.log("Updated", r);
-    } else {
-      console.error("Update failed", r);
-    }
+  // The id stays the same across signaling reconnects so peers can tell
+  // we're the same person coming back rather than someone new.
+  const id = myPeerId || uuidv4();
+  myPeerId = id;
+  myRoomId = roomId;
+  await refreshIceServers();
+  await transport.connect(id, {
+    peerAnnounced,
+    peerDeparted,
+    signalReceived,
+    beaconReceived,
+    reconnected: signalingReconnected,
   });
+
+  await transport.announce(id, roomId);
+  announced = true;
+  sendBeacon();
 }
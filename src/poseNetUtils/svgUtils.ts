@@ -18,8 +18,31 @@
 import paper from "paper";
 
 export class SVGUtils {
-  static async importSVG(file: string): Promise<paper.PaperScope> {
-    console.log("Importing svg", file);
+  // paper treats any string that doesn't look like this as a URL to fetch
+  static isMarkup(text: string) {
+    return text.trim().startsWith("<");
+  }
+
+  // For SVG text we didn't write ourselves. Passing the element to importSVG
+  // means paper can't mistake it for a URL.
+  static parseSVGMarkup(markup: string): SVGElement {
+    if (!SVGUtils.isMarkup(markup)) throw "Not SVG markup";
+
+    const doc = new DOMParser().parseFromString(markup, "image/svg+xml");
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName("parsererror").length > 0) {
+      throw "Couldn't parse the SVG";
+    }
+    if (root.localName !== "svg") throw "Not an SVG";
+    return (root as unknown) as SVGElement;
+  }
+
+  // Takes the URL of a file we ship, or an already parsed SVG
+  static async importSVG(file: string | SVGElement): Promise<paper.PaperScope> {
+    console.log(
+      "Importing svg",
+      typeof file === "string" ? file : "from markup"
+    );
     let svgScope = new paper.PaperScope();
 
     // Have an open PR to paper.js to fix this
@@ -28,9 +51,12 @@ export class SVGUtils {
     svgScope.setup(canvas);
     return new Promise((resolve, reject) => {
       console.log("In promise");
-      svgScope.project.importSVG(file, () => {
-        console.log("** SVG imported **");
-        resolve(svgScope);
+      svgScope.project.importSVG(file, {
+        onLoad: () => {
+          console.log("** SVG imported **");
+          resolve(svgScope);
+        },
+        onError: (message: string) => reject(message),
       });
     });
   }
@@ -0,0 +1,121 @@
+import { SkeletonDrawData } from "./posenet";
+import { FaceFrame } from "./illustrationGen/skeleton";
+import {
+  PoseRecording,
+  RecordedFrame,
+  POSE_RECORDING_VERSION,
+} from "./poseSources/playbackPoseSource";
+
+// Captures what the tracker produced so avatar glitches can be replayed
+// later with a PlaybackPoseSource.
+
+export interface RecorderOptions {
+  // Recording stops by itself after this many frames...
+  maxFrames: number;
+  // ...or once the JSON would be roughly this many bytes
+  maxBytes: number;
+  // Face data is most of each frame, leave it out to record for longer
+  includeFace: boolean;
+  // Called with the finished recording, whether stopped by hand or by a limit
+  onFinished?: (recording: PoseRecording) => void;
+}
+
+interface Recording {
+  options: RecorderOptions;
+  frames: RecordedFrame[];
+  bytes: number;
+  startedAt: number;
+  lastSkeleton?: SkeletonDrawData["skeleton"];
+}
+
+const defaultOptions: RecorderOptions = {
+  maxFrames: 10000,
+  maxBytes: 20 * 1024 * 1024,
+  includeFace: true,
+};
+
+let recording: Recording | undefined;
+
+export function isRecording() {
+  return !!recording;
+}
+
+export function startRecording(options: Partial<RecorderOptions> = {}) {
+  if (recording) stopRecording();
+
+  recording = {
+    options: { ...defaultOptions, ...options },
+    frames: [],
+    bytes: 0,
+    startedAt: performance.now(),
+  };
+  console.log("Recording poses");
+}
+
+export function stopRecording(): PoseRecording | undefined {
+  if (!recording) return;
+
+  const { frames, options } = recording;
+  recording = undefined;
+
+  const result: PoseRecording = { version: POSE_RECORDING_VERSION, frames };
+  console.log(`Recorded ${frames.length} pose frames`);
+  if (options.onFinished) {
+    options.onFinished(result);
+  }
+  return result;
+}
+
+// Stands in for the face when it isn't recorded. The rig infers one from the
+// ears, rather than not updating at all on playback.
+const NO_FACE: FaceFrame = { positions: [], faceInViewConfidence: 0 };
+
+// Call with every skeleton update. The same skeleton gets sent several
+// times between detections, only the first of those is kept.
+export function recordFrame(drawData: Partial<SkeletonDrawData>) {
+  if (!recording || !drawData.skeleton) return;
+  if (drawData.skeleton === recording.lastSkeleton) return;
+  recording.lastSkeleton = drawData.skeleton;
+
+  const { skeleton, position, destination } = drawData;
+  const frame: RecordedFrame = {
+    time: performance.now() - recording.startedAt,
+    skeleton: recording.options.includeFace
+      ? skeleton
+      : { pose: skeleton.pose, face: NO_FACE },
+    position: position && { x: position.x, y: position.y },
+    destination: destination && { x: destination.x, y: destination.y },
+  };
+
+  const bytes = JSON.stringify(frame).length + 1;
+  if (
+    recording.frames.length >= recording.options.maxFrames ||
+    recording.bytes + bytes > recording.options.maxBytes
+  ) {
+    console.log("Pose recording hit its size limit");
+    stopRecording();
+    return;
+  }
+
+  recording.frames.push(frame);
+  recording.bytes += bytes;
+}
+
+export function downloadRecording(
+  poseRecording: PoseRecording,
+  filename = `poses-${new Date().toISOString()}.json`
+) {
+  const blob = new Blob([JSON.stringify(poseRecording)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,77 @@
+import { PoseSource } from "./poseSource";
+import { SkeletonData } from "../posenet";
+import { Position } from "../signaling/signalingTransport";
+import { wait } from "../backoff";
+
+// Newest recording format we can play back
+export const POSE_RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  // ms since the recording started
+  time: number;
+  skeleton: SkeletonData;
+  position?: Position;
+  destination?: Position;
+}
+
+export interface PoseRecording {
+  version: number;
+  frames: RecordedFrame[];
+}
+
+// Plays back a recorded JSON file (or one already in memory) at the speed it
+// was recorded, looping by default.
+export class PlaybackPoseSource implements PoseSource {
+  source: string | PoseRecording;
+  loop: boolean;
+  frames: RecordedFrame[] = [];
+  index = 0;
+  startedAt = 0;
+
+  constructor(source: string | PoseRecording, loop = true) {
+    this.source = source;
+    this.loop = loop;
+  }
+
+  async start() {
+    let recording = this.source;
+    if (typeof recording === "string") {
+      const response = await fetch(recording);
+      if (!response.ok) {
+        throw `Could not load pose recording ${recording}: ${response.status}`;
+      }
+      recording = (await response.json()) as PoseRecording;
+    }
+
+    if (!recording || !Array.isArray(recording.frames)) {
+      throw "Pose recording has no frames";
+    }
+    if (recording.version > POSE_RECORDING_VERSION) {
+      throw `Pose recording is v${recording.version}, we only understand up to v${POSE_RECORDING_VERSION}`;
+    }
+    if (recording.frames.length === 0) {
+      throw "Pose recording is empty";
+    }
+
+    this.frames = recording.frames;
+    this.index = 0;
+    this.startedAt = performance.now();
+  }
+
+  async nextFrame(): Promise<SkeletonData> {
+    if (this.index >= this.frames.length) {
+      if (!this.loop) {
+        // Hold the last frame rather than spinning
+        await wait(1000);
+        return this.frames[this.frames.length - 1].skeleton;
+      }
+      this.index = 0;
+      this.startedAt = performance.now();
+    }
+
+    const frame = this.frames[this.index++];
+    const due = this.startedAt + frame.time - this.frames[0].time;
+    await wait(Math.max(0, due - performance.now()));
+    return frame.skeleton;
+  }
+}
@@ -0,0 +1,12 @@
+import { SkeletonData } from "../posenet";
+
+// Anything that can drive the local avatar: the webcam and ML models, a
+// recording played back, or a script.
+export interface PoseSource {
+  // Called once before the first frame, e.g. to ask for the camera
+  start(): Promise<void>;
+
+  // Resolves with the next skeleton. The detection loop asks again as soon
+  // as this resolves, so sources are responsible for their own pacing.
+  nextFrame(): Promise<SkeletonData>;
+}
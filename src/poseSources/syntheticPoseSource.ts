@@ -0,0 +1,72 @@
+import { Keypoint } from "@tensorflow-models/posenet";
+import { PoseSource } from "./poseSource";
+import { SkeletonData } from "../posenet";
+import { wait } from "../backoff";
+
+// Given seconds since the source started, where everything should be
+export type PoseScript = (time: number) => SkeletonData;
+
+const FRAME_RATE = 30;
+
+function keypoint(part: string, x: number, y: number): Keypoint {
+  return { part, score: 1, position: { x, y } };
+}
+
+// Point at the end of a limb hanging from (x, y), rotated by angle radians
+function limb(x: number, y: number, length: number, angle: number) {
+  return { x: x - Math.sin(angle) * length, y: y + Math.cos(angle) * length };
+}
+
+// Someone standing in the middle of a 640x480 camera, swaying a little and
+// waving one arm. The face is left to the rig, which infers it from the ears
+// when there's no confident face.
+export const waveScript: PoseScript = (time) => {
+  const sway = Math.sin(time * 1.5) * 10;
+  const wave = Math.sin(time * 6) * 0.4;
+
+  const leftShoulder = { x: 260 + sway, y: 200 };
+  const rightShoulder = { x: 380 + sway, y: 200 };
+  const leftElbow = limb(leftShoulder.x, leftShoulder.y, 70, 0.2);
+  const leftWrist = limb(leftElbow.x, leftElbow.y, 70, 0.1);
+  const rightElbow = limb(rightShoulder.x, rightShoulder.y, 70, -2.2);
+  const rightWrist = limb(rightElbow.x, rightElbow.y, 70, -2.8 + wave);
+
+  return {
+    pose: {
+      score: 1,
+      keypoints: [
+        keypoint("leftEar", 295 + sway, 120),
+        keypoint("rightEar", 345 + sway, 120),
+        keypoint("leftShoulder", leftShoulder.x, leftShoulder.y),
+        keypoint("rightShoulder", rightShoulder.x, rightShoulder.y),
+        keypoint("leftElbow", leftElbow.x, leftElbow.y),
+        keypoint("rightElbow", rightElbow.x, rightElbow.y),
+        keypoint("leftWrist", leftWrist.x, leftWrist.y),
+        keypoint("rightWrist", rightWrist.x, rightWrist.y),
+        keypoint("leftHip", 280 + sway, 360),
+        keypoint("rightHip", 360 + sway, 360),
+      ],
+    },
+    face: { positions: [], faceInViewConfidence: 0 },
+  };
+};
+
+// Generates poses from a script, so there's no camera or ML involved.
+// Deterministic for a given script and set of frame times.
+export class SyntheticPoseSource implements PoseSource {
+  script: PoseScript;
+  startedAt = 0;
+
+  constructor(script: PoseScript = waveScript) {
+    this.script = script;
+  }
+
+  async start() {
+    this.startedAt = performance.now();
+  }
+
+  async nextFrame(): Promise<SkeletonData> {
+    await wait(1000 / FRAME_RATE);
+    return this.script((performance.now() - this.startedAt) / 1000);
+  }
+}
@@ -0,0 +1,45 @@
+import { PoseSource } from "./poseSource";
+import { SkeletonData } from "../posenet";
+import { createSkeletonDetector, SkeletonDetector } from "../skeletonDetector";
+
+const setVideoHeight = async (el: HTMLVideoElement): Promise<number> => {
+  if (el.height && el.width) {
+    return el.height;
+  }
+
+  if (el.videoHeight && el.videoWidth) {
+    el.height = el.videoHeight;
+    el.width = el.videoWidth;
+    return el.height;
+  } else {
+    return await setVideoHeight(el);
+  }
+};
+
+// Runs posenet and facemesh on the user's camera
+export class WebcamPoseSource implements PoseSource {
+  video: HTMLVideoElement;
+  detectSkeleton?: SkeletonDetector;
+
+  constructor(video: HTMLVideoElement) {
+    this.video = video;
+  }
+
+  async start() {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: { facingMode: "user" },
+    });
+
+    this.video.srcObject = stream;
+    await new Promise((resolve) => (this.video.onloadedmetadata = resolve));
+    this.video.play();
+
+    await setVideoHeight(this.video);
+    this.detectSkeleton = await createSkeletonDetector(this.video);
+  }
+
+  nextFrame(): Promise<SkeletonData> {
+    return this.detectSkeleton();
+  }
+}
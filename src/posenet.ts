@@ -1,17 +1,35 @@
 // Adapted from https://github.com/yemount/pose-animator/blob/90d5a58328f16d332c39d4b281298428ebb61e64/camera.js
 import * as posenet from "@tensorflow-models/posenet";
-import * as facemesh from "@tensorflow-models/facemesh";
-import * as tf from "@tensorflow/tfjs";
 import paper from "paper";
 
 import { isMobile } from "./poseNetUtils/demoUtils";
 import { PoseIllustration } from "./illustrationGen/illustration";
-import { Skeleton } from "./illustrationGen/skeleton";
+import { Skeleton, FaceFrame } from "./illustrationGen/skeleton";
+import {
+  CompiledAvatar,
+  compileAvatar,
+  loadCompiledAvatar,
+} from "./illustrationGen/compiledAvatar";
 import { SVGUtils } from "./poseNetUtils/svgUtils";
-
-interface SkeletonData {
+import {
+  pushSkeletonUpdate,
+  sampleSkeleton,
+  clearJitterBuffer,
+} from "./jitterBuffer";
+import {
+  smoothSkeleton,
+  configureSmoothing,
+  SmoothingOptions,
+} from "./smoothing";
+import { PoseSource } from "./poseSources/poseSource";
+import { DEFAULT_AVATAR, DEFAULT_PEER_AVATAR } from "./avatars";
+import { customAvatarHash, getCustomAvatarSVG } from "./customAvatars";
+
+// Only what the rig needs: the raw facemesh prediction is hundreds of mesh
+// vertices we'd otherwise be sending to everyone in the room.
+export interface SkeletonData {
   pose?: posenet.Pose;
-  face?: facemesh.AnnotatedPrediction;
+  face?: FaceFrame;
 }
 
 // TODO: This is really two different data types: one that must have a SkeletonData obj, and one that never does
@@ -21,38 +39,60 @@ export interface SkeletonDrawData {
   illustration: PoseIllustration;
   position: paper.Point;
   destination?: paper.Point;
+  reconnecting?: boolean;
+  // Still tracked and moving, just not drawn
+  hidden?: boolean;
+  // When this update was sent, in ms on the sender's clock
+  timestamp?: number;
 }
 
 type SkeletonDataHandler = (skeleton: SkeletonDrawData) => void;
-type AvatarPeerMap = { [peerId: string]: SkeletonDrawData };
+export type AvatarPeerMap = { [peerId: string]: SkeletonDrawData };
+// Called after every frame is drawn, with where everyone ended up
+type FrameHandler = (player: SkeletonDrawData, peers: AvatarPeerMap) => void;
 
 const peerMap: AvatarPeerMap = {};
-
-// ML models
-let facemeshNet: facemesh.FaceMesh;
-let posenetNet: posenet.PoseNet;
-
-const getSkeleton = async (input: HTMLVideoElement): Promise<SkeletonData> => {
-  const tensor = tf.browser.fromPixels(input);
-  const face = await facemeshNet.estimateFaces(tensor, false, false);
-  const poses = await posenetNet.estimatePoses(input, {
-    flipHorizontal: true,
-    decodingMethod: "multi-person",
-    maxDetections: 1,
-    scoreThreshold: 0.15,
-    nmsRadius: 30.0,
-  });
-
-  tensor.dispose();
-
-  return {
-    pose: poses[0],
-    face: face[0],
-  };
-};
-
-export function drawSkeleton(skeletonData: SkeletonDrawData) {
-  const { skeleton, illustration, position, destination } = skeletonData;
+// Which avatar each peer asked for
+const peerAvatars: { [peerId: string]: string } = {};
+// Peers whose avatar is still loading, see addPeer
+const loadingPeers: { [peerId: string]: object } = {};
+// Us, once setUpPosenet has loaded everything
+let player: SkeletonDrawData | undefined;
+let playerAvatar = DEFAULT_AVATAR;
+// Where people we aren't connected to are standing
+const peerMarkers: { [peerId: string]: paper.Point } = {};
+
+// The scene is built once and updated in place each frame. Avatars go
+// above the background and markers above them.
+let avatarLayer: paper.Group | undefined;
+let markerLayer: paper.Group | undefined;
+const markerItems: { [peerId: string]: paper.Item } = {};
+
+const compiledAvatars: { [avatar: string]: Promise<CompiledAvatar> } = {};
+
+// How often the latest pose is handed to onSkeletonUpdate. The send
+// scheduler decides how many of those actually go out.
+const NETWORK_INTERVAL = 1000 / 60;
+
+// How long to wait before asking the pose source again after it fails, so
+// a source that keeps failing doesn't spin
+const FRAME_RETRY_DELAY = 500;
+
+// How fast avatars walk to where you clicked, in world pixels per second
+const WALK_SPEED = 400;
+// Don't jump across the world after the tab has been in the background
+const MAX_WALK_STEP_TIME = 100;
+
+// elapsed is the ms since the last frame was drawn
+export function drawSkeleton(skeletonData: SkeletonDrawData, elapsed: number) {
+  const {
+    skeleton,
+    illustration,
+    position,
+    destination,
+    reconnecting,
+    hidden,
+  } = skeletonData;
 
   if (!skeleton || !skeleton.pose || !illustration) {
     console.log(
@@ -63,47 +103,125 @@ export function drawSkeleton(skeletonData: SkeletonDrawData) {
     return;
   }
 
-  Skeleton.flipPose(skeleton.pose);
+  // The same skeleton gets drawn every frame until the next one arrives,
+  // so flip a copy rather than the original
+  const pose = {
+    ...skeleton.pose,
+    keypoints: skeleton.pose.keypoints.map((kp) => ({ ...kp })),
+  };
+  Skeleton.flipPose(pose);
 
   if (skeleton.face) {
-    let face = Skeleton.toFaceFrame(skeleton.face);
-    illustration.updateSkeleton(skeleton.pose, face);
+    illustration.updateSkeleton(pose, skeleton.face);
   } else {
     console.log("WARNING: No face detected");
   }
-  const group = illustration.draw();
 
-  // TODO: This should either have a nicer curve and/or be based on time rather than static speed
-  const speed = 40;
-  if (destination && position.getDistance(destination) > speed) {
-    const vector = destination.subtract(position).normalize().multiply(speed);
+  // TODO: This should have a nicer curve
+  const step = (WALK_SPEED * Math.min(elapsed, MAX_WALK_STEP_TIME)) / 1000;
+  if (destination && position.getDistance(destination) > step) {
+    const vector = destination.subtract(position).normalize().multiply(step);
     skeletonData.position = position.add(vector);
   }
 
+  if (hidden) {
+    illustration.hide();
+    return;
+  }
+
+  const group = illustration.draw();
+  if (!group) return;
+
   group.position = position;
-  paper.project.activeLayer.addChild(group);
+  group.opacity = reconnecting ? 0.3 : 1;
+  if (group.parent !== avatarLayer) {
+    avatarLayer.addChild(group);
+  }
+}
+
+function drawMarkers() {
+  Object.keys(markerItems)
+    .filter((peerId) => !peerMarkers[peerId])
+    .forEach((peerId) => {
+      markerItems[peerId].remove();
+      delete markerItems[peerId];
+    });
+
+  Object.keys(peerMarkers).forEach((peerId) => {
+    if (!markerItems[peerId]) {
+      markerItems[peerId] = new paper.Path.Circle({
+        center: peerMarkers[peerId],
+        radius: 12,
+        fillColor: "white",
+        strokeColor: "black",
+        opacity: 0.6,
+        parent: markerLayer,
+      });
+    }
+    const marker = markerItems[peerId];
+    marker.position = peerMarkers[peerId];
+    // Once we're connected they're drawn as themselves instead
+    marker.visible = !peerMap[peerId];
+  });
 }
 
 const detectAndDrawPose = (
-  inputVideo: HTMLVideoElement,
+  source: PoseSource,
   skeletonData: SkeletonDrawData,
-  onSkeletonUpdate?: SkeletonDataHandler
+  onSkeletonUpdate?: SkeletonDataHandler,
+  onFrame?: FrameHandler
 ) => {
+  // Inference runs as fast as the source produces frames
   async function poseDetectionFrame() {
-    const skeleton = await getSkeleton(inputVideo);
-    skeletonData.skeleton = skeleton;
+    try {
+      const skeleton = await source.nextFrame();
+      skeletonData.skeleton = smoothSkeleton(skeleton, performance.now());
+    } catch (e) {
+      // Keep the last skeleton and try again, rather than stop tracking
+      console.error("Couldn't get a pose frame", e);
+      setTimeout(poseDetectionFrame, FRAME_RETRY_DELAY);
+      return;
+    }
+    setTimeout(poseDetectionFrame, 0);
+  }
+
+  // Drawing runs at display rate with the latest skeletons we have
+  let lastRenderTime: number | undefined;
+  function renderFrame(time: number) {
+    const elapsed = lastRenderTime === undefined ? 0 : time - lastRenderTime;
+    lastRenderTime = time;
+
+    Object.keys(peerMap).forEach((peerId) => {
+      const sample = sampleSkeleton(peerId);
+      if (sample) {
+        Object.assign(peerMap[peerId], sample);
+      }
+    });
+
+    if (skeletonData.skeleton) {
+      drawSkeleton(skeletonData, elapsed);
+    }
+    Object.values(peerMap).forEach((s) => drawSkeleton(s, elapsed));
+    drawMarkers();
 
-    if (onSkeletonUpdate) {
-      onSkeletonUpdate({ ...skeletonData });
+    if (onFrame) {
+      onFrame(skeletonData, peerMap);
     }
+    requestAnimationFrame(renderFrame);
+  }
 
-    paper.project.clear();
-    drawSkeleton(skeletonData);
-    Object.values(peerMap).forEach((s) => drawSkeleton(s));
-    requestAnimationFrame(poseDetectionFrame);
+  // Sends whatever we look like right now, even if neither of the other
+  // loops has caught up, so walking around still reaches peers promptly
+  function networkTick() {
+    if (!skeletonData.skeleton) return;
+    onSkeletonUpdate({ ...skeletonData, timestamp: performance.now() });
   }
 
   poseDetectionFrame();
+  requestAnimationFrame(renderFrame);
+  if (onSkeletonUpdate) {
+    setInterval(networkTick, NETWORK_INTERVAL);
+  }
 };
 
 function setupCanvas(
@@ -136,84 +254,174 @@ function setupCanvas(
   bg.scale(10);
   bg.position = new paper.Point(500, 500);
   paper.project.activeLayer.addChild(bg);
-}
 
-const setVideoHeight = async (el: HTMLVideoElement): Promise<number> => {
-  if (el.height && el.width) {
-    return el.height;
-  }
+  avatarLayer = new paper.Group();
+  markerLayer = new paper.Group();
+}
 
-  if (el.videoHeight && el.videoWidth) {
-    el.height = el.videoHeight;
-    el.width = el.videoWidth;
-    return el.height;
-  } else {
-    return await setVideoHeight(el);
+async function compileSVG(target: string): Promise<CompiledAvatar> {
+  const hash = customAvatarHash(target);
+  let svg: string | SVGElement = `./svgs/${target}.svg`;
+  if (hash) {
+    const markup = getCustomAvatarSVG(hash);
+    if (!markup) throw `Avatar ${target} hasn't been downloaded yet`;
+    svg = SVGUtils.parseSVGMarkup(markup);
   }
-};
 
-export async function parseSVG(target: string): Promise<PoseIllustration> {
-  const scope = await SVGUtils.importSVG(`./svgs/${target}.svg`);
+  const scope = await SVGUtils.importSVG(svg);
   let skeleton = new Skeleton(scope);
   const illustration = new PoseIllustration(skeleton, scope, paper);
-  return illustration;
+  return compileAvatar(illustration);
+}
+
+// Each avatar is only imported and skinned once, however many people use it
+export async function parseSVG(target: string): Promise<PoseIllustration> {
+  if (!compiledAvatars[target]) {
+    const compiled = compileSVG(target);
+    compiledAvatars[target] = compiled;
+    // Let a failed load be retried, e.g. once a custom avatar has arrived
+    compiled.catch(() => {
+      if (compiledAvatars[target] === compiled) delete compiledAvatars[target];
+    });
+  }
+  return loadCompiledAvatar(await compiledAvatars[target], paper);
 }
 
 /**
- * Kicks off the demo by loading the posenet model, finding and loading
- * available camera devices, and setting off the detectPoseInRealTime function.
+ * Kicks off the demo by starting the pose source (for the webcam, that's
+ * the camera and ML models) and setting off the detection and render loops.
  */
 export async function setUpPosenet({
-  input,
+  source,
   output,
   onSkeletonUpdate,
+  onFrame,
+  smoothing,
+  avatar = DEFAULT_AVATAR,
 }: {
-  input: HTMLVideoElement;
+  source: PoseSource;
   output: HTMLCanvasElement;
   onSkeletonUpdate?: SkeletonDataHandler;
+  onFrame?: FrameHandler;
+  // Tuning for the keypoint smoothing filter, see smoothing.ts
+  smoothing?: Partial<SmoothingOptions>;
+  // One of the avatars in avatars.ts
+  avatar?: string;
 }) {
-  const inputVideo = input;
-
-  console.log("Loading PoseNet model...");
-  posenetNet = await posenet.load({
-    architecture: "MobileNetV1",
-    outputStride: 16,
-    inputResolution: 257,
-    multiplier: 1.0,
-    quantBytes: 2,
-  });
-  console.log("Loading FaceMesh model...");
-  facemeshNet = await facemesh.load();
+  if (smoothing) {
+    configureSmoothing(smoothing);
+  }
 
-  const illustration = await parseSVG("girl");
-  await setVideoHeight(inputVideo);
+  playerAvatar = avatar;
+  const illustration = await parseSVG(avatar);
+  await source.start();
 
   const playerSkeleton = {
     position: new paper.Point(100, 400),
     illustration: illustration,
   };
 
+  player = playerSkeleton;
   setupCanvas(output, playerSkeleton);
 
-  detectAndDrawPose(inputVideo, playerSkeleton, onSkeletonUpdate);
+  detectAndDrawPose(source, playerSkeleton, onSkeletonUpdate, onFrame);
   console.log("Finished setting up posenet");
 }
 
+export async function setLocalAvatar(avatar: string) {
+  playerAvatar = avatar;
+  const illustration = await parseSVG(avatar);
+
+  // Picked something else again while this one was loading
+  if (!player || playerAvatar !== avatar) return;
+  player.illustration.remove();
+  player.illustration = illustration;
+}
+
+export function setLocalAvatarVisible(visible: boolean) {
+  if (!player) return;
+  player.hidden = !visible;
+}
+
+async function rebuildPeerIllustration(peerId: string) {
+  const avatar = peerAvatars[peerId] || DEFAULT_PEER_AVATAR;
+  const illustration = await parseSVG(avatar);
+
+  const current = peerAvatars[peerId] || DEFAULT_PEER_AVATAR;
+  if (!peerMap[peerId] || current !== avatar) return;
+  peerMap[peerId].illustration.remove();
+  peerMap[peerId].illustration = illustration;
+}
+
+// Can arrive before or after we've started drawing them
+export function setPeerAvatar(peerId: string, avatar: string) {
+  if (peerAvatars[peerId] === avatar) return;
+
+  peerAvatars[peerId] = avatar;
+  if (peerMap[peerId]) {
+    rebuildPeerIllustration(peerId);
+  }
+}
+
 export async function addPeer(peerId: string) {
-  const illustration = await parseSVG("boy");
+  const loading = {};
+  loadingPeers[peerId] = loading;
+
+  const avatar = peerAvatars[peerId] || DEFAULT_PEER_AVATAR;
+  const illustration = await parseSVG(avatar);
+
+  // They left, or another addPeer started over, while we were loading
+  if (loadingPeers[peerId] !== loading) return;
+  delete loadingPeers[peerId];
+
+  peerMap[peerId]?.illustration.remove();
   peerMap[peerId] = {
     illustration,
     position: new paper.Point(0, 0),
   };
+
+  // They told us about a different avatar while this one was loading
+  if ((peerAvatars[peerId] || DEFAULT_PEER_AVATAR) !== avatar) {
+    rebuildPeerIllustration(peerId);
+  }
+}
+
+export function removePeer(peerId: string) {
+  delete loadingPeers[peerId];
+  peerMap[peerId]?.illustration.remove();
+  delete peerMap[peerId];
+  delete peerAvatars[peerId];
+  clearJitterBuffer(peerId);
+}
+
+export function updatePeerMarker(peerId: string, position: paper.Point) {
+  peerMarkers[peerId] = position;
+}
+
+export function removePeerMarker(peerId: string) {
+  delete peerMarkers[peerId];
+}
+
+export function setPeerReconnecting(peerId: string, reconnecting: boolean) {
+  if (!peerMap[peerId]) return;
+  peerMap[peerId].reconnecting = reconnecting;
+}
+
+export function setPeerVisible(peerId: string, visible: boolean) {
+  if (!peerMap[peerId]) return;
+  peerMap[peerId].hidden = !visible;
 }
 
 export async function updatePeer(
   peerId: string,
   data: Partial<SkeletonDrawData>
 ) {
-  if (!peerMap[peerId]) {
+  if (!peerMap[peerId] && !loadingPeers[peerId]) {
     await addPeer(peerId);
+    // They left before their avatar finished loading
+    if (!peerMap[peerId]) return;
   }
 
-  peerMap[peerId] = { ...peerMap[peerId], ...data };
+  // Drawn from the jitter buffer on the next frame, not straight away
+  pushSkeletonUpdate(peerId, data);
 }
@@ -0,0 +1,101 @@
+import {
+  sendToPeer,
+  getConnectedPeerIds,
+  getBufferedAmount,
+  SendableData,
+} from "./networking";
+
+export interface SendSchedulerOptions {
+  // Pose updates per second when there are only a few peers
+  maxRate: number;
+  // We never go slower than this, no matter how crowded it gets
+  minRate: number;
+  // Past this many peers, the rate drops so total upload stays roughly flat
+  peersAtFullRate: number;
+  // Skip a peer whose data channel already has this many bytes queued
+  maxBufferedAmount: number;
+}
+
+export interface PeerSendStats {
+  sent: number;
+  // Updates we didn't send because the peer's channel was backed up
+  skipped: number;
+  bytes: number;
+  bufferedAmount: number;
+  lastSentAt?: number;
+}
+
+let options: SendSchedulerOptions = {
+  maxRate: 30,
+  minRate: 5,
+  peersAtFullRate: 4,
+  maxBufferedAmount: 64 * 1024,
+};
+
+let lastSentAt = 0;
+// Frames that came in faster than the current rate allows
+let throttled = 0;
+const stats: { [peerId: string]: PeerSendStats } = {};
+
+export function configureSendScheduler(
+  newOptions: Partial<SendSchedulerOptions>
+) {
+  options = { ...options, ...newOptions };
+}
+
+export function currentSendRate(peerCount: number): number {
+  if (peerCount <= options.peersAtFullRate) {
+    return options.maxRate;
+  }
+  const rate = (options.maxRate * options.peersAtFullRate) / peerCount;
+  return Math.max(options.minRate, rate);
+}
+
+// Call every frame. The message is only built if something is actually sent.
+export function sendPoseUpdate(buildMessage: () => SendableData) {
+  const peerIds = getConnectedPeerIds();
+
+  Object.keys(stats)
+    .filter((peerId) => peerIds.indexOf(peerId) === -1)
+    .forEach((peerId) => delete stats[peerId]);
+
+  if (peerIds.length === 0) return;
+
+  const now = performance.now();
+  if (now - lastSentAt < 1000 / currentSendRate(peerIds.length)) {
+    throttled++;
+    return;
+  }
+  lastSentAt = now;
+
+  let message: SendableData | undefined;
+  peerIds.forEach((peerId) => {
+    const peerStats = (stats[peerId] = stats[peerId] || {
+      sent: 0,
+      skipped: 0,
+      bytes: 0,
+      bufferedAmount: 0,
+    });
+
+    peerStats.bufferedAmount = getBufferedAmount(peerId, "unreliable");
+    if (peerStats.bufferedAmount > options.maxBufferedAmount) {
+      peerStats.skipped++;
+      return;
+    }
+
+    message = message || buildMessage();
+    sendToPeer(peerId, message, "unreliable");
+    peerStats.sent++;
+    peerStats.bytes +=
+      typeof message === "string" ? message.length : message.byteLength;
+    peerStats.lastSentAt = now;
+  });
+}
+
+export function getSendStats() {
+  return {
+    rate: currentSendRate(getConnectedPeerIds().length),
+    throttled,
+    peers: { ...stats },
+  };
+}
@@ -0,0 +1,153 @@
+import Peer from "simple-peer";
+import * as SignalR from "@aspnet/signalr";
+import {
+  SignalingTransport,
+  SignalingHandlers,
+  IceServerConfig,
+  Position,
+} from "./signalingTransport";
+import { backoffDelay, wait } from "../backoff";
+
+// Talks to the Azure Functions in server/ through Azure SignalR Service.
+export class AzureSignalRTransport implements SignalingTransport {
+  baseUrl: string;
+  connection?: SignalR.HubConnection;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  async connect(peerId: string, handlers: SignalingHandlers) {
+    class CustomHttpClient extends SignalR.DefaultHttpClient {
+      public send(request: SignalR.HttpRequest): Promise<SignalR.HttpResponse> {
+        request.headers = {
+          ...request.headers,
+          "x-ms-client-principal-id": peerId,
+        };
+        return super.send(request);
+      }
+    }
+
+    const connection = new SignalR.HubConnectionBuilder()
+      .withUrl(this.baseUrl, {
+        httpClient: new CustomHttpClient(console),
+      })
+      .configureLogging(SignalR.LogLevel.Information)
+      .build();
+
+    connection.on("peerConnected", (otherPeerId) => {
+      console.log("got a peer to connect to!", otherPeerId);
+      handlers.peerAnnounced(otherPeerId);
+    });
+
+    connection.on("beacon", (otherPeerId, x, y) => {
+      handlers.beaconReceived(otherPeerId, { x, y });
+    });
+
+    connection.on("peerLeft", (otherPeerId) => {
+      console.log("Peer left", otherPeerId);
+      handlers.peerDeparted(otherPeerId);
+    });
+
+    connection.on("signal", (json) => {
+      const { data, peerId, roomId } = JSON.parse(json);
+      console.log("Received signaling data!", peerId, data);
+      handlers.signalReceived(peerId, roomId, data);
+    });
+
+    connection.on("irrelevant", (data) => {
+      console.log("Irrelevant", data);
+    });
+
+    connection.onclose(() => {
+      console.log("disconnected");
+      this.reconnect(handlers);
+    });
+
+    this.connection = connection;
+
+    console.log("connecting...");
+    try {
+      await connection.start();
+      console.log("Connected!");
+    } catch (e) {
+      // Keep trying in the background, like after a dropped connection
+      console.error("Connect failed", e);
+      this.reconnect(handlers);
+    }
+  }
+
+  async reconnect(handlers: SignalingHandlers) {
+    for (let attempt = 0; ; attempt++) {
+      await wait(backoffDelay(attempt));
+      console.log("reconnecting...", attempt);
+      try {
+        await this.connection.start();
+        console.log("Reconnected!");
+        handlers.reconnected();
+        return;
+      } catch (e) {
+        console.error("Reconnect failed", e);
+      }
+    }
+  }
+
+  async announce(peerId: string, roomId: string) {
+    await this.callFunction("broadcastPeerId", { peerId, roomId });
+  }
+
+  async sendSignal(
+    peerId: string,
+    senderPeerId: string,
+    roomId: string,
+    data: Peer.SignalData
+  ) {
+    await this.callFunction("sendSignalData", {
+      data,
+      peerId,
+      senderPeerId,
+      roomId,
+    });
+  }
+
+  async sendBeacon(peerId: string, roomId: string, position: Position) {
+    await this.callFunction("broadcastBeacon", {
+      peerId,
+      roomId,
+      x: position.x,
+      y: position.y,
+    });
+  }
+
+  async getIceServers(peerId: string): Promise<IceServerConfig> {
+    const r = await fetch(`${this.baseUrl}/iceServers`, {
+      method: "POST",
+      credentials: "include",
+      headers: { "x-ms-client-principal-id": peerId },
+    });
+    if (!r.ok) {
+      throw new Error(`Fetching ICE servers failed: ${r.status}`);
+    }
+    return r.json();
+  }
+
+  callFunction(endpoint: string, body?: any, options?: Partial<RequestInit>) {
+    let opts = {
+      method: "POST",
+      credentials: "include" as RequestCredentials, // sigh
+      ...options,
+    };
+
+    if (body) {
+      opts.body = JSON.stringify(body);
+    }
+
+    return fetch(`${this.baseUrl}/${endpoint}`, opts).then((r) => {
+      if (r.ok) {
+        console.log("Updated", r);
+      } else {
+        console.error("Update failed", r);
+      }
+    });
+  }
+}
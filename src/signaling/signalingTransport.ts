@@ -0,0 +1,52 @@
+import Peer from "simple-peer";
+
+export type PeerAnnouncedHandler = (peerId: string) => void;
+export type PeerDepartedHandler = (peerId: string) => void;
+export type ReconnectedHandler = () => void;
+export type BeaconReceivedHandler = (peerId: string, position: Position) => void;
+export type SignalReceivedHandler = (
+  peerId: string,
+  roomId: string,
+  data: Peer.SignalData
+) => void;
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface IceServerConfig {
+  iceServers: RTCIceServer[];
+  // Seconds until any TURN credentials in iceServers expire
+  ttl: number;
+}
+
+export interface SignalingHandlers {
+  peerAnnounced: PeerAnnouncedHandler;
+  peerDeparted: PeerDepartedHandler;
+  signalReceived: SignalReceivedHandler;
+  beaconReceived: BeaconReceivedHandler;
+  // Called after the transport lost its connection and got it back.
+  // Anything the server forgot about us (like our room) has to be redone.
+  reconnected: ReconnectedHandler;
+}
+
+// The signaling layer only needs to do three things for WebRTC:
+// tell everyone in our room we exist, send a signal to one peer, and hand us
+// signals other peers have sent. Anything that can do that can back
+// networking.ts.
+// It also carries occasional position beacons, so we know where people we
+// aren't connected to are standing.
+// Transports are expected to reconnect on their own if they drop.
+export interface SignalingTransport {
+  connect(peerId: string, handlers: SignalingHandlers): Promise<void>;
+  announce(peerId: string, roomId: string): Promise<void>;
+  sendSignal(
+    peerId: string,
+    senderPeerId: string,
+    roomId: string,
+    data: Peer.SignalData
+  ): Promise<void>;
+  sendBeacon(peerId: string, roomId: string, position: Position): Promise<void>;
+  getIceServers(peerId: string): Promise<IceServerConfig>;
+}
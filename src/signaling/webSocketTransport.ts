@@ -0,0 +1,131 @@
+import Peer from "simple-peer";
+import {
+  SignalingTransport,
+  SignalingHandlers,
+  IceServerConfig,
+  Position,
+} from "./signalingTransport";
+import { backoffDelay } from "../backoff";
+
+// Talks to the self-hosted server in server/standalone over a WebSocket.
+export class WebSocketTransport implements SignalingTransport {
+  url: string;
+  socket?: WebSocket;
+  reconnectAttempt = 0;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(
+    peerId: string,
+    handlers: SignalingHandlers,
+    isReconnect = false
+  ): Promise<void> {
+    const socket = new WebSocket(
+      `${this.url}?userId=${encodeURIComponent(peerId)}`
+    );
+
+    socket.onmessage = (e) => {
+      const message: { target: string; arguments: any[] } = JSON.parse(e.data);
+
+      if (message.target === "peerConnected") {
+        const [otherPeerId] = message.arguments;
+        console.log("got a peer to connect to!", otherPeerId);
+        handlers.peerAnnounced(otherPeerId);
+      } else if (message.target === "beacon") {
+        const [otherPeerId, x, y] = message.arguments;
+        handlers.beaconReceived(otherPeerId, { x, y });
+      } else if (message.target === "peerLeft") {
+        const [otherPeerId] = message.arguments;
+        console.log("Peer left", otherPeerId);
+        handlers.peerDeparted(otherPeerId);
+      } else if (message.target === "signal") {
+        const { data, peerId, roomId } = JSON.parse(message.arguments[0]);
+        console.log("Received signaling data!", peerId, data);
+        handlers.signalReceived(peerId, roomId, data);
+      } else {
+        console.log("Irrelevant", message);
+      }
+    };
+
+    socket.onclose = () => {
+      console.log("disconnected");
+      const delay = backoffDelay(this.reconnectAttempt++);
+      setTimeout(() => {
+        console.log("reconnecting...", this.reconnectAttempt);
+        this.connect(peerId, handlers, true);
+      }, delay);
+    };
+
+    this.socket = socket;
+
+    console.log("connecting...");
+    return new Promise((resolve) => {
+      socket.onopen = () => {
+        console.log("Connected!");
+        this.reconnectAttempt = 0;
+        if (isReconnect) {
+          handlers.reconnected();
+        }
+        resolve();
+      };
+      socket.onerror = (e) => {
+        console.error(e);
+        resolve();
+      };
+    });
+  }
+
+  async announce(peerId: string, roomId: string) {
+    this.callFunction("broadcastPeerId", { peerId, roomId });
+  }
+
+  async sendSignal(
+    peerId: string,
+    senderPeerId: string,
+    roomId: string,
+    data: Peer.SignalData
+  ) {
+    this.callFunction("sendSignalData", {
+      data,
+      peerId,
+      senderPeerId,
+      roomId,
+    });
+  }
+
+  async sendBeacon(peerId: string, roomId: string, position: Position) {
+    this.callFunction("broadcastBeacon", {
+      peerId,
+      roomId,
+      x: position.x,
+      y: position.y,
+    });
+  }
+
+  // The standalone server serves plain HTTP on the same port as the socket
+  async getIceServers(peerId: string): Promise<IceServerConfig> {
+    const httpUrl = new URL(this.url);
+    httpUrl.protocol = httpUrl.protocol === "wss:" ? "https:" : "http:";
+    httpUrl.pathname = "/iceServers";
+    httpUrl.search = "";
+
+    const r = await fetch(httpUrl.toString(), {
+      method: "POST",
+      headers: { "x-ms-client-principal-id": peerId },
+    });
+    if (!r.ok) {
+      throw new Error(`Fetching ICE servers failed: ${r.status}`);
+    }
+    return r.json();
+  }
+
+  callFunction(endpoint: string, body?: any) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      console.error("Update failed, socket is not open", endpoint);
+      return;
+    }
+    this.socket.send(JSON.stringify({ endpoint, body }));
+  }
+}
@@ -0,0 +1,109 @@
+import { SkeletonData } from "./posenet";
+import {
+  loadModels,
+  estimateSkeleton,
+  InferenceRequest,
+  InferenceResponse,
+} from "./inference";
+
+// Grabs the current webcam frame and works out the skeleton in it
+export type SkeletonDetector = () => Promise<SkeletonData>;
+
+function canUseWorker() {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+async function createWorkerDetector(
+  input: HTMLVideoElement
+): Promise<SkeletonDetector> {
+  const worker = new Worker("./inferenceWorker.ts");
+
+  try {
+    await new Promise((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent) => {
+        const message: InferenceResponse = e.data;
+        if (message.type === "ready") resolve();
+        if (message.type === "error") reject(message.message);
+      };
+      worker.onerror = reject;
+    });
+  } catch (e) {
+    worker.terminate();
+    throw e;
+  }
+
+  // Only one frame is ever in flight, the detection loop awaits each one
+  let pending:
+    | { resolve: (s: SkeletonData) => void; reject: (e: any) => void }
+    | undefined;
+
+  worker.onmessage = (e: MessageEvent) => {
+    const message: InferenceResponse = e.data;
+    const request = pending;
+    pending = undefined;
+    if (!request) return;
+
+    if (message.type === "skeleton") {
+      request.resolve(message.skeleton);
+    } else if (message.type === "error") {
+      request.reject(message.message);
+    }
+  };
+
+  // Once the worker dies, every frame after that is done on the main thread
+  let fallback: Promise<SkeletonDetector> | undefined;
+
+  worker.onerror = (e: ErrorEvent) => {
+    console.error("Inference worker died, using the main thread", e);
+    worker.terminate();
+    fallback = fallback || createMainThreadDetector(input);
+
+    const request = pending;
+    pending = undefined;
+    if (request) {
+      request.reject(e.message || "Inference worker failed");
+    }
+  };
+
+  return async () => {
+    const frame = await createImageBitmap(input);
+    // Checked after the await, in case the worker died while we grabbed it
+    if (fallback) {
+      frame.close();
+      const detector = await fallback;
+      return detector();
+    }
+
+    return new Promise<SkeletonData>((resolve, reject) => {
+      pending = { resolve, reject };
+      const request: InferenceRequest = { type: "frame", frame };
+      worker.postMessage(request, [frame]);
+    });
+  };
+}
+
+async function createMainThreadDetector(
+  input: HTMLVideoElement
+): Promise<SkeletonDetector> {
+  await loadModels();
+  return () => estimateSkeleton(input);
+}
+
+// Runs inference in a worker so it doesn't hold up drawing, unless the
+// browser is missing something the worker needs
+export async function createSkeletonDetector(
+  input: HTMLVideoElement
+): Promise<SkeletonDetector> {
+  if (canUseWorker()) {
+    try {
+      return await createWorkerDetector(input);
+    } catch (e) {
+      console.error("Inference worker failed, using the main thread", e);
+    }
+  }
+  return createMainThreadDetector(input);
+}
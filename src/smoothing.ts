@@ -0,0 +1,109 @@
+import { Pose } from "@tensorflow-models/posenet";
+import { FaceFrame } from "./illustrationGen/skeleton";
+import { SkeletonData } from "./posenet";
+
+// One Euro filter (https://gery.casiez.net/1euro/) on every keypoint and face
+// vertex. It smooths hard when something is holding still and barely at all
+// when it's moving fast, so we lose the jitter without adding lag to big moves.
+
+export interface SmoothingOptions {
+  enabled: boolean;
+  // Cutoff frequency in Hz when still. Lower is smoother but laggier.
+  minCutoff: number;
+  // How much the cutoff rises with speed. Higher reacts faster to movement.
+  beta: number;
+  // Cutoff frequency in Hz for the speed estimate itself
+  derivativeCutoff: number;
+}
+
+// If we haven't seen a point for this long (ms), start it over rather than
+// sliding in from wherever it was last
+const RESET_AFTER = 500;
+
+class OneEuroFilter {
+  private value?: number;
+  private derivative = 0;
+  private lastTime?: number;
+
+  filter(x: number, time: number): number {
+    if (
+      this.value === undefined ||
+      time - this.lastTime > RESET_AFTER ||
+      time < this.lastTime
+    ) {
+      this.value = x;
+      this.derivative = 0;
+      this.lastTime = time;
+      return x;
+    }
+
+    const dt = (time - this.lastTime) / 1000;
+    if (dt === 0) return this.value;
+    this.lastTime = time;
+
+    const dx = (x - this.value) / dt;
+    this.derivative +=
+      (dx - this.derivative) * alpha(options.derivativeCutoff, dt);
+
+    const cutoff = options.minCutoff + options.beta * Math.abs(this.derivative);
+    this.value += (x - this.value) * alpha(cutoff, dt);
+    return this.value;
+  }
+}
+
+function alpha(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+let options: SmoothingOptions = {
+  enabled: true,
+  minCutoff: 1,
+  beta: 0.01,
+  derivativeCutoff: 1,
+};
+
+const filters: { [key: string]: OneEuroFilter } = {};
+
+function filtered(key: string, x: number, time: number) {
+  const filter = (filters[key] = filters[key] || new OneEuroFilter());
+  return filter.filter(x, time);
+}
+
+export function configureSmoothing(newOptions: Partial<SmoothingOptions>) {
+  options = { ...options, ...newOptions };
+}
+
+function smoothPose(pose: Pose, time: number): Pose {
+  return {
+    score: pose.score,
+    keypoints: pose.keypoints.map((kp) => ({
+      part: kp.part,
+      score: kp.score,
+      position: {
+        x: filtered(`pose:${kp.part}:x`, kp.position.x, time),
+        y: filtered(`pose:${kp.part}:y`, kp.position.y, time),
+      },
+    })),
+  };
+}
+
+function smoothFace(face: FaceFrame, time: number): FaceFrame {
+  return {
+    faceInViewConfidence: face.faceInViewConfidence,
+    positions: face.positions.map((p, i) => filtered(`face:${i}`, p, time)),
+  };
+}
+
+// Returns a smoothed copy, the input is left alone. time is in ms.
+export function smoothSkeleton(
+  skeleton: SkeletonData,
+  time: number
+): SkeletonData {
+  if (!options.enabled) return skeleton;
+
+  return {
+    pose: skeleton.pose && smoothPose(skeleton.pose, time),
+    face: skeleton.face && smoothFace(skeleton.face, time),
+  };
+}
@@ -0,0 +1,152 @@
+import paper from "paper";
+
+export interface SpatialAudioOptions {
+  // How quickly voices get quieter with distance. See PannerNode.rolloffFactor.
+  rolloffFactor: number;
+  // Distance (in world pixels) at which a voice is at full volume
+  refDistance: number;
+  // Beyond this distance you can't hear someone at all
+  maxDistance: number;
+  distanceModel: DistanceModelType;
+}
+
+interface PeerAudio {
+  element: HTMLAudioElement;
+  source: MediaStreamAudioSourceNode;
+  panner: PannerNode;
+  gain: GainNode;
+}
+
+// How long gain changes take to settle, so crossing maxDistance fades
+// someone out instead of clicking off
+const GAIN_TIME_CONSTANT = 0.1;
+
+let options: SpatialAudioOptions = {
+  rolloffFactor: 1,
+  refDistance: 100,
+  maxDistance: 600,
+  distanceModel: "inverse",
+};
+
+let context: AudioContext | undefined;
+const peerAudio: { [peerId: string]: PeerAudio } = {};
+
+function getContext(): AudioContext {
+  if (!context) {
+    const AudioContextClass =
+      window.AudioContext || (window as any).webkitAudioContext;
+    context = new AudioContextClass();
+
+    // Browsers won't start audio until the user has interacted with the page
+    const resume = () => {
+      context.resume();
+      window.removeEventListener("click", resume);
+      window.removeEventListener("keydown", resume);
+    };
+    window.addEventListener("click", resume);
+    window.addEventListener("keydown", resume);
+  }
+  return context;
+}
+
+// The world is a side view: x runs along the hill, y points down the screen.
+// In Web Audio y points up, so flip it, and keep everyone on the z = 0 plane.
+function setPosition(
+  param: { positionX: AudioParam; positionY: AudioParam },
+  p: paper.Point
+) {
+  param.positionX.value = p.x;
+  param.positionY.value = -p.y;
+}
+
+export function configureSpatialAudio(
+  newOptions: Partial<SpatialAudioOptions>
+) {
+  options = { ...options, ...newOptions };
+  Object.values(peerAudio).forEach(({ panner }) => {
+    panner.rolloffFactor = options.rolloffFactor;
+    panner.refDistance = options.refDistance;
+    panner.maxDistance = options.maxDistance;
+    panner.distanceModel = options.distanceModel;
+  });
+}
+
+export function addPeerAudio(peerId: string, stream: MediaStream) {
+  removePeerAudio(peerId);
+
+  const ctx = getContext();
+
+  // Chrome won't feed a remote WebRTC stream into Web Audio unless it's
+  // also attached to a media element. Muted, so we don't hear it twice.
+  const element = document.createElement("audio");
+  element.id = `audio-${peerId}`;
+  element.srcObject = stream;
+  element.muted = true;
+  element.play();
+
+  const source = ctx.createMediaStreamSource(stream);
+  const panner = ctx.createPanner();
+  panner.panningModel = "HRTF";
+  panner.rolloffFactor = options.rolloffFactor;
+  panner.refDistance = options.refDistance;
+  panner.maxDistance = options.maxDistance;
+  panner.distanceModel = options.distanceModel;
+
+  const gain = ctx.createGain();
+  // Silent until we know where they are
+  gain.gain.value = 0;
+
+  source.connect(panner);
+  panner.connect(gain);
+  gain.connect(ctx.destination);
+
+  peerAudio[peerId] = { element, source, panner, gain };
+}
+
+export function removePeerAudio(peerId: string) {
+  const audio = peerAudio[peerId];
+  if (!audio) return;
+
+  audio.source.disconnect();
+  audio.panner.disconnect();
+  audio.gain.disconnect();
+  audio.element.pause();
+  audio.element.srcObject = null;
+  audio.element.remove();
+  delete peerAudio[peerId];
+}
+
+// Call once per frame with where we are and where everyone else is
+export function updateSpatialAudio(
+  listenerPosition: paper.Point,
+  peerPositions: { [peerId: string]: paper.Point }
+) {
+  if (!context) return;
+
+  const listener = context.listener;
+  if (listener.positionX) {
+    setPosition(listener, listenerPosition);
+  } else {
+    // Firefox and Safari only have the deprecated setter
+    listener.setPosition(listenerPosition.x, -listenerPosition.y, 0);
+  }
+
+  Object.keys(peerAudio).forEach((peerId) => {
+    const { panner, gain } = peerAudio[peerId];
+    const position = peerPositions[peerId];
+
+    let target = 0;
+    if (position) {
+      if (panner.positionX) {
+        setPosition(panner, position);
+      } else {
+        panner.setPosition(position.x, -position.y, 0);
+      }
+
+      const distance = position.getDistance(listenerPosition);
+      target = distance > options.maxDistance ? 0 : 1;
+    }
+
+    gain.gain.setTargetAtTime(target, context.currentTime, GAIN_TIME_CONSTANT);
+  });
+}
@@ -0,0 +1,198 @@
+import paper from "paper";
+import { partNames } from "@tensorflow-models/posenet";
+import { SkeletonDrawData, SkeletonData } from "./posenet";
+
+// Binary encoding for the skeleton updates we send every frame, as the
+// payload of a "pose" message (see messages.ts, which carries the version).
+//
+// Layout (little-endian):
+//   u8  flags (see Flags)
+//   u32 timestamp, ms on the sender's clock (v2 and up)
+//   [position]     i16 x, i16 y
+//   [destination]  i16 x, i16 y
+//   [pose]         u8 score, u8 keypoint count,
+//                  then per keypoint: u8 part index, u8 score, i16 x, i16 y
+//   [face]         u8 faceInViewConfidence, u8 point count,
+//                  then per point: i16 x, i16 y
+//
+// Coordinates are fixed point with COORD_SCALE steps per pixel, scores are
+// quantized to 0-255. That's plenty for drawing an avatar and keeps a full
+// update to a few hundred bytes.
+export const WIRE_FORMAT_VERSION = 2;
+
+const COORD_SCALE = 8;
+const MAX_COORD = 0x7fff / COORD_SCALE;
+
+enum Flags {
+  Position = 1 << 0,
+  Destination = 1 << 1,
+  Pose = 1 << 2,
+  Face = 1 << 3,
+}
+
+const HEADER_SIZE = 1;
+const TIMESTAMP_SIZE = 4;
+const POINT_SIZE = 4;
+const KEYPOINT_SIZE = 2 + POINT_SIZE;
+
+function quantizeCoord(n: number) {
+  const clamped = Math.max(-MAX_COORD, Math.min(MAX_COORD, n));
+  return Math.round(clamped * COORD_SCALE);
+}
+
+function quantizeScore(n: number) {
+  return Math.round(Math.max(0, Math.min(1, n || 0)) * 255);
+}
+
+export function encodeSkeletonDrawData(
+  drawData: Partial<SkeletonDrawData>
+): ArrayBuffer {
+  const { skeleton, position, destination } = drawData;
+  const pose = skeleton && skeleton.pose;
+  const face = skeleton && skeleton.face;
+  const keypoints = pose
+    ? pose.keypoints.filter((kp) => partNames.indexOf(kp.part) !== -1)
+    : [];
+  const facePointCount = face ? face.positions.length / 2 : 0;
+
+  let flags = 0;
+  let size = HEADER_SIZE + TIMESTAMP_SIZE;
+  if (position) {
+    flags |= Flags.Position;
+    size += POINT_SIZE;
+  }
+  if (destination) {
+    flags |= Flags.Destination;
+    size += POINT_SIZE;
+  }
+  if (pose) {
+    flags |= Flags.Pose;
+    size += 2 + keypoints.length * KEYPOINT_SIZE;
+  }
+  if (face) {
+    flags |= Flags.Face;
+    size += 2 + facePointCount * POINT_SIZE;
+  }
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const writeU8 = (n: number) => {
+    view.setUint8(offset, n);
+    offset += 1;
+  };
+  const writePoint = (x: number, y: number) => {
+    view.setInt16(offset, quantizeCoord(x), true);
+    view.setInt16(offset + 2, quantizeCoord(y), true);
+    offset += POINT_SIZE;
+  };
+
+  writeU8(flags);
+  const timestamp =
+    drawData.timestamp !== undefined ? drawData.timestamp : performance.now();
+  view.setUint32(offset, Math.round(timestamp) >>> 0, true);
+  offset += TIMESTAMP_SIZE;
+
+  if (position) {
+    writePoint(position.x, position.y);
+  }
+  if (destination) {
+    writePoint(destination.x, destination.y);
+  }
+  if (pose) {
+    writeU8(quantizeScore(pose.score));
+    writeU8(keypoints.length);
+    keypoints.forEach((kp) => {
+      writeU8(partNames.indexOf(kp.part));
+      writeU8(quantizeScore(kp.score));
+      writePoint(kp.position.x, kp.position.y);
+    });
+  }
+  if (face) {
+    writeU8(quantizeScore(face.faceInViewConfidence));
+    writeU8(facePointCount);
+    for (let i = 0; i < facePointCount; i++) {
+      writePoint(face.positions[i * 2], face.positions[i * 2 + 1]);
+    }
+  }
+
+  return buffer;
+}
+
+// Returns undefined for anything that isn't a skeleton update we understand
+export function decodeSkeletonDrawData(
+  data: ArrayBuffer | Uint8Array,
+  version = WIRE_FORMAT_VERSION
+): Partial<SkeletonDrawData> | undefined {
+  const view =
+    data instanceof Uint8Array
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+
+  if (view.byteLength < HEADER_SIZE) return;
+
+  let offset = 0;
+  const readU8 = () => {
+    const n = view.getUint8(offset);
+    offset += 1;
+    return n;
+  };
+  const readPoint = () => {
+    const x = view.getInt16(offset, true) / COORD_SCALE;
+    const y = view.getInt16(offset + 2, true) / COORD_SCALE;
+    offset += POINT_SIZE;
+    return { x, y };
+  };
+
+  try {
+    const flags = readU8();
+    const result: Partial<SkeletonDrawData> = {};
+    const skeleton: SkeletonData = {};
+
+    if (version >= 2) {
+      result.timestamp = view.getUint32(offset, true);
+      offset += TIMESTAMP_SIZE;
+    }
+
+    if (flags & Flags.Position) {
+      const { x, y } = readPoint();
+      result.position = new paper.Point(x, y);
+    }
+    if (flags & Flags.Destination) {
+      const { x, y } = readPoint();
+      result.destination = new paper.Point(x, y);
+    }
+    if (flags & Flags.Pose) {
+      const score = readU8() / 255;
+      const count = readU8();
+      const keypoints = [];
+      for (let i = 0; i < count; i++) {
+        const part = partNames[readU8()];
+        const kpScore = readU8() / 255;
+        const position = readPoint();
+        keypoints.push({ part, score: kpScore, position });
+      }
+      skeleton.pose = { score, keypoints };
+    }
+    if (flags & Flags.Face) {
+      const faceInViewConfidence = readU8() / 255;
+      const count = readU8();
+      const positions: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const { x, y } = readPoint();
+        positions.push(x, y);
+      }
+      skeleton.face = { positions, faceInViewConfidence };
+    }
+
+    if (skeleton.pose || skeleton.face) {
+      result.skeleton = skeleton;
+    }
+    return result;
+  } catch (e) {
+    // DataView throws a RangeError if the buffer was truncated
+    console.log("Could not decode skeleton update", e);
+    return;
+  }
+}
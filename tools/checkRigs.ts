@@ -0,0 +1,80 @@
+// Checks avatar SVGs the same way the app does when it loads them, so a
+// renamed layer shows up here instead of as a crash at runtime.
+//
+//   npm run check-rigs                   everything in svgs/
+//   npm run check-rigs -- path/to/a.svg  specific files or folders
+//
+// Exits non-zero if anything has a problem.
+import * as fs from "fs";
+import * as path from "path";
+import paper from "paper";
+import { SVGUtils } from "../src/poseNetUtils/svgUtils";
+import {
+  validateRig,
+  validateSkinning,
+} from "../src/illustrationGen/rigValidation";
+
+function svgFiles(targets: string[]): string[] {
+  const files: string[] = [];
+  targets.forEach((target) => {
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(target).isDirectory();
+    } catch (e) {
+      // checkFile reports it
+    }
+
+    if (isDirectory) {
+      fs.readdirSync(target)
+        .filter((name) => name.endsWith(".svg"))
+        .sort()
+        .forEach((name) => files.push(path.join(target, name)));
+    } else {
+      files.push(target);
+    }
+  });
+  return files;
+}
+
+function checkFile(file: string): string[] {
+  let svg: string;
+  try {
+    svg = fs.readFileSync(file, "utf8");
+  } catch (e) {
+    return [`Couldn't read the file: ${e.message}`];
+  }
+  // paper would try to load anything else as a URL
+  if (!SVGUtils.isMarkup(svg)) return ["Not an SVG file"];
+
+  const scope = new paper.PaperScope();
+  scope.setup(new paper.Size(1, 1));
+
+  try {
+    const item = scope.project.importSVG(svg);
+    if (!item) return ["Couldn't import the SVG"];
+  } catch (e) {
+    return [`Couldn't import the SVG: ${e}`];
+  }
+
+  const problems = validateRig(scope.project);
+  return problems.length > 0 ? problems : validateSkinning(scope);
+}
+
+const args = process.argv.slice(2);
+const files = svgFiles(args.length > 0 ? args : ["svgs"]);
+let failed = 0;
+
+files.forEach((file) => {
+  const problems = checkFile(file);
+  if (problems.length === 0) {
+    console.log(`ok    ${file}`);
+    return;
+  }
+
+  failed++;
+  console.log(`FAIL  ${file}`);
+  problems.forEach((problem) => console.log(`        ${problem}`));
+});
+
+console.log(`\n${files.length - failed} of ${files.length} rigs ok`);
+process.exitCode = failed > 0 ? 1 : 0;